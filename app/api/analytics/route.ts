@@ -0,0 +1,46 @@
+export const runtime = 'nodejs';
+
+import { NextResponse } from 'next/server';
+import { analyticsCsv } from '@/lib/analytics/aggregate';
+import { isDashboardEnabled, loopAnalytics } from '@/lib/analytics';
+import type { AnalyticsRange } from '@/lib/analytics/types';
+
+const DAY = /^\d{4}-\d{2}-\d{2}$/;
+
+// GET /api/analytics?from=YYYY-MM-DD&to=YYYY-MM-DD → { loops: LoopAnalytics[] }
+// over every learner's events in that range (both ends optional, inclusive)
+// GET /api/analytics?format=csv&… → the same as a CSV download
+export async function GET(req: Request) {
+  if (!isDashboardEnabled()) {
+    return NextResponse.json({ error: 'Not available' }, { status: 403 });
+  }
+
+  const params = new URL(req.url).searchParams;
+  const range: AnalyticsRange = {};
+  for (const key of ['from', 'to'] as const) {
+    const value = params.get(key);
+    if (!value) continue;
+    if (!DAY.test(value)) {
+      return NextResponse.json(
+        { error: `${key} must be a date like 2026-01-31` },
+        { status: 400 },
+      );
+    }
+    range[key] = value;
+  }
+
+  const loops = await loopAnalytics(range);
+  if (params.get('format') === 'csv') {
+    const name = ['tryloop-analytics', range.from, range.to]
+      .filter(Boolean)
+      .join('_');
+    return new NextResponse(analyticsCsv(loops), {
+      headers: {
+        'Content-Type': 'text/csv; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${name}.csv"`,
+      },
+    });
+  }
+
+  return NextResponse.json({ loops });
+}
@@ -0,0 +1,77 @@
+export const runtime = 'nodejs';
+
+import { NextResponse } from 'next/server';
+import {
+  applyGlitch,
+  glitchLabel,
+  isGlitchId,
+  loadReferenceSolution,
+} from '@/lib/glitches';
+import { loadLoop } from '@/lib/loops/load';
+import { loopErrorResponse } from '@/lib/loops/http';
+import type { LoopManifest } from '@/lib/loops/schema';
+
+type GlitchBody = {
+  loopId: string;
+  glitchId: string;
+};
+
+export async function POST(req: Request) {
+  let body: GlitchBody;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  const { loopId, glitchId } = body;
+
+  if (!loopId || typeof loopId !== 'string') {
+    return NextResponse.json({ error: 'loopId is required' }, { status: 400 });
+  }
+  if (!glitchId || typeof glitchId !== 'string') {
+    return NextResponse.json(
+      { error: 'glitchId is required' },
+      { status: 400 },
+    );
+  }
+
+  let loop: LoopManifest;
+  try {
+    loop = await loadLoop(loopId);
+  } catch (e) {
+    return loopErrorResponse(e);
+  }
+
+  if (!loop.glitches?.includes(glitchId) || !isGlitchId(glitchId)) {
+    return NextResponse.json(
+      { error: `Glitch ${glitchId} is not available for ${loopId}` },
+      { status: 400 },
+    );
+  }
+
+  let reference: string;
+  try {
+    reference = await loadReferenceSolution(loop);
+  } catch {
+    return NextResponse.json(
+      { error: `Reference solution not found for ${loopId}` },
+      { status: 404 },
+    );
+  }
+
+  const code = applyGlitch(glitchId, reference);
+  if (code == null) {
+    return NextResponse.json(
+      { error: `Glitch ${glitchId} does not apply to ${loopId}` },
+      { status: 500 },
+    );
+  }
+
+  return NextResponse.json({
+    loopId,
+    glitchId,
+    label: glitchLabel(glitchId),
+    code,
+  });
+}
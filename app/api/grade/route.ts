@@ -1,22 +1,25 @@
 export const runtime = 'nodejs';
 
 import { NextResponse } from 'next/server';
-import path from 'node:path';
-import { readFile } from 'node:fs/promises';
+import { analyzeCode } from '@/lib/analysis';
+import { recordHintEvent } from '@/lib/analytics';
 import { gradeWithRules, type CoachFail } from '@/lib/coach/rules';
+import { spendHint } from '@/lib/hints/ledger';
+import { getOrCreateLearnerId } from '@/lib/learner';
+import { submittedFiles } from '@/lib/loops/files';
+import { loopLanguage } from '@/lib/loops/languages';
+import { loadCoachRules, loadLoop } from '@/lib/loops/load';
+import { loopErrorResponse } from '@/lib/loops/http';
+import { recordHintUsed } from '@/lib/progress';
+import type { CoachRules } from '@/lib/coach/schema';
+import type { LoopManifest } from '@/lib/loops/schema';
 
 type GradeBody = {
   loopId: string;
-  code: string;
+  code?: string; // single-file loops
+  files?: Record<string, string>; // editable files, by path
   failingTests: CoachFail[];
-  tier?: number;
-};
-
-type LoopJson = {
-  id: string;
-  title: string;
-  spec: string[];
-  docs?: { label: string; url: string }[];
+  tier?: number; // must be the next unrevealed tier (defaults to it)
 };
 
 export async function POST(req: Request) {
@@ -27,14 +30,11 @@ export async function POST(req: Request) {
     return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
   }
 
-  const { loopId, code, failingTests, tier } = body;
+  const { loopId, failingTests, tier } = body;
 
   if (!loopId || typeof loopId !== 'string') {
     return NextResponse.json({ error: 'loopId is required' }, { status: 400 });
   }
-  if (!code || typeof code !== 'string') {
-    return NextResponse.json({ error: 'code is required' }, { status: 400 });
-  }
   if (!Array.isArray(failingTests)) {
     return NextResponse.json(
       { error: 'failingTests must be an array' },
@@ -48,16 +48,57 @@ export async function POST(req: Request) {
     );
   }
 
-  const loopPath = path.join(process.cwd(), 'loops', loopId, 'loop.json');
-
-  let loop: LoopJson;
+  let loop: LoopManifest;
+  let rules: CoachRules | null;
   try {
-    loop = JSON.parse(await readFile(loopPath, 'utf8'));
-  } catch {
-    return NextResponse.json({ error: 'Loop not found' }, { status: 404 });
+    loop = await loadLoop(loopId);
+    rules = await loadCoachRules(loopId);
+  } catch (e) {
+    return loopErrorResponse(e);
+  }
+
+  const submitted = submittedFiles(loop, body);
+  if (!submitted.ok) {
+    return NextResponse.json({ error: submitted.error }, { status: 400 });
+  }
+
+  // The ledger decides whether this hint is affordable and in order
+  const learnerId = await getOrCreateLearnerId();
+  const spent = await spendHint(learnerId, loop, tier);
+  if (!spent.ok) {
+    return NextResponse.json(
+      { error: spent.error, hints: spent.balance },
+      { status: 409 },
+    );
   }
+  await recordHintUsed(learnerId, loop.id).catch((e) =>
+    console.error('Could not record hint use', e),
+  );
+
+  const coach = gradeWithRules({
+    loop,
+    coach: rules,
+    files: submitted.files,
+    failingTests,
+    tier: spent.tier,
+  });
 
-  const coach = gradeWithRules({ loop, code, failingTests, tier });
+  // Dashboard: which bug patterns learners ask for help with
+  const detectors =
+    loopLanguage(loop) === 'typescript'
+      ? Object.values(submitted.files).flatMap((code) =>
+          analyzeCode(code, { boundaries: loop.boundaries }).findings.map(
+            (f) => f.detector,
+          ),
+        )
+      : [];
+  await recordHintEvent({
+    learnerId,
+    loopId: loop.id,
+    tier: spent.tier,
+    rule: coach.rule ?? null,
+    detectors: [...new Set(detectors)],
+  }).catch((e) => console.error('Could not record hint event', e));
 
-  return NextResponse.json(coach);
+  return NextResponse.json({ ...coach, hints: spent.balance });
 }
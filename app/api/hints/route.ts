@@ -0,0 +1,42 @@
+export const runtime = 'nodejs';
+
+import { NextResponse } from 'next/server';
+import { getHintBalance, resetHints } from '@/lib/hints/ledger';
+import { getOrCreateLearnerId } from '@/lib/learner';
+import { loadLoop } from '@/lib/loops/load';
+import { loopErrorResponse } from '@/lib/loops/http';
+import type { LoopManifest } from '@/lib/loops/schema';
+
+async function loopFromQuery(req: Request) {
+  const loopId = new URL(req.url).searchParams.get('loopId');
+  if (!loopId) {
+    return NextResponse.json({ error: 'loopId is required' }, { status: 400 });
+  }
+  try {
+    return await loadLoop(loopId);
+  } catch (e) {
+    return loopErrorResponse(e);
+  }
+}
+
+// GET /api/hints?loopId=… → this learner's hint balance for the loop
+export async function GET(req: Request) {
+  const loop: LoopManifest | NextResponse = await loopFromQuery(req);
+  if (loop instanceof NextResponse) return loop;
+
+  const learnerId = await getOrCreateLearnerId();
+  return NextResponse.json(await getHintBalance(learnerId, loop));
+}
+
+// DELETE /api/hints?loopId=… → dev only: refill tokens and reset the tier
+export async function DELETE(req: Request) {
+  if (process.env.NODE_ENV === 'production') {
+    return NextResponse.json({ error: 'Not available' }, { status: 403 });
+  }
+
+  const loop: LoopManifest | NextResponse = await loopFromQuery(req);
+  if (loop instanceof NextResponse) return loop;
+
+  const learnerId = await getOrCreateLearnerId();
+  return NextResponse.json(await resetHints(learnerId, loop));
+}
@@ -0,0 +1,43 @@
+export const runtime = 'nodejs';
+
+import { NextResponse } from 'next/server';
+import { runRejectedResponse } from '@/app/api/run/prepare';
+import { getOrCreateLearnerId } from '@/lib/learner';
+import {
+  checkLoopSource,
+  isStudioEnabled,
+  loopSourceError,
+  type LoopSource,
+} from '@/lib/loops/authoring';
+import { RunRejectedError } from '@/lib/runner/queue';
+
+// POST /api/loops/:loopId/check { loop, tests, reference } → validation
+// issues and the tests' results against the reference solution. Writes
+// nothing; PUT /api/loops/:loopId saves the same body. The test run goes
+// through the run queue and its per-learner limit (429 when turned away).
+export async function POST(
+  req: Request,
+  { params }: { params: Promise<{ loopId: string }> },
+) {
+  if (!isStudioEnabled()) {
+    return NextResponse.json({ error: 'Not available' }, { status: 403 });
+  }
+  const { loopId } = await params;
+
+  let body: LoopSource;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+  const error = loopSourceError(body);
+  if (error) return NextResponse.json({ error }, { status: 400 });
+
+  const learnerId = await getOrCreateLearnerId();
+  try {
+    return NextResponse.json(await checkLoopSource(loopId, body, learnerId));
+  } catch (e) {
+    if (!(e instanceof RunRejectedError)) throw e;
+    return runRejectedResponse(e);
+  }
+}
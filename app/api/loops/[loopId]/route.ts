@@ -1,8 +1,17 @@
 export const runtime = 'nodejs';
 
 import { NextResponse } from 'next/server';
-import { readFile } from 'node:fs/promises';
-import path from 'node:path';
+import { runRejectedResponse } from '@/app/api/run/prepare';
+import { getOrCreateLearnerId } from '@/lib/learner';
+import {
+  isStudioEnabled,
+  loopSourceError,
+  saveLoopSource,
+  type LoopSource,
+} from '@/lib/loops/authoring';
+import { loadLoop } from '@/lib/loops/load';
+import { loopErrorResponse } from '@/lib/loops/http';
+import { RunRejectedError } from '@/lib/runner/queue';
 
 export async function GET(
   _req: Request,
@@ -10,21 +19,50 @@ export async function GET(
 ) {
   const { loopId } = await params;
 
-  const filePath = path.join(process.cwd(), 'loops', loopId, 'loop.json');
-
   try {
-    const raw = await readFile(filePath, 'utf8');
-    const loop = JSON.parse(raw);
+    const loop = await loadLoop(loopId);
+    return NextResponse.json({ loop });
+  } catch (e) {
+    return loopErrorResponse(e);
+  }
+}
 
-    if (loop.id && loop.id !== loopId) {
-      return NextResponse.json(
-        { error: 'Loop id mismatch', expected: loopId, got: loop.id },
-        { status: 400 },
-      );
-    }
+// PUT /api/loops/:loopId { loop, tests, reference } → creates or replaces
+// the loop. The draft is validated and its tests must pass against the
+// reference solution before anything is written; otherwise 422 with the
+// issues (same body as POST /api/loops/:loopId/check), or 429 when the run
+// queue turns the check's test run away.
+export async function PUT(
+  req: Request,
+  { params }: { params: Promise<{ loopId: string }> },
+) {
+  if (!isStudioEnabled()) {
+    return NextResponse.json({ error: 'Not available' }, { status: 403 });
+  }
+  const { loopId } = await params;
 
-    return NextResponse.json({ loop });
+  let body: LoopSource;
+  try {
+    body = await req.json();
   } catch {
-    return NextResponse.json({ error: 'Loop not found' }, { status: 404 });
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+  const error = loopSourceError(body);
+  if (error) return NextResponse.json({ error }, { status: 400 });
+
+  const learnerId = await getOrCreateLearnerId();
+  let check;
+  try {
+    check = await saveLoopSource(loopId, body, learnerId);
+  } catch (e) {
+    if (!(e instanceof RunRejectedError)) throw e;
+    return runRejectedResponse(e);
+  }
+  if (!check.ok) {
+    return NextResponse.json(
+      { error: 'The loop has issues; nothing was saved', ...check },
+      { status: 422 },
+    );
   }
+  return NextResponse.json({ saved: true, ...check });
 }
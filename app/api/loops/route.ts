@@ -0,0 +1,16 @@
+export const runtime = 'nodejs';
+
+import { NextResponse } from 'next/server';
+import { listLoops } from '@/lib/loops/catalog';
+
+export async function GET() {
+  try {
+    const loops = await listLoops();
+    return NextResponse.json({ loops });
+  } catch {
+    return NextResponse.json(
+      { error: 'Could not read loops directory' },
+      { status: 500 },
+    );
+  }
+}
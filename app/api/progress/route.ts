@@ -0,0 +1,19 @@
+export const runtime = 'nodejs';
+
+import { NextResponse } from 'next/server';
+import { getOrCreateLearnerId } from '@/lib/learner';
+import { getProgress } from '@/lib/progress';
+
+// GET /api/progress → { loops: { [loopId]: LoopProgress } } for this learner
+// GET /api/progress?loopId=… → { loopId, progress } (null if never run)
+export async function GET(req: Request) {
+  const learnerId = await getOrCreateLearnerId();
+  const loops = await getProgress(learnerId);
+
+  const loopId = new URL(req.url).searchParams.get('loopId');
+  if (loopId) {
+    return NextResponse.json({ loopId, progress: loops[loopId] ?? null });
+  }
+
+  return NextResponse.json({ loops });
+}
@@ -0,0 +1,66 @@
+export const runtime = 'nodejs';
+
+import { NextResponse } from 'next/server';
+import { getOrCreateLearnerId } from '@/lib/learner';
+import { listLoops } from '@/lib/loops/catalog';
+import { loadLoop } from '@/lib/loops/load';
+import { loopErrorResponse } from '@/lib/loops/http';
+import type { LoopManifest } from '@/lib/loops/schema';
+import { getReviewCards, startReview } from '@/lib/review';
+import { dayOf, isDue, type ReviewEntry } from '@/lib/review/sm2';
+
+// GET /api/reviews → { today, due, upcoming }: this learner's solved loops,
+// due ones (today or overdue) first, the rest by due date
+// GET /api/reviews?loopId=… → { loopId, today, card } (null if not solved)
+export async function GET(req: Request) {
+  const learnerId = await getOrCreateLearnerId();
+  const cards = await getReviewCards(learnerId);
+  const today = dayOf(new Date());
+
+  const loopId = new URL(req.url).searchParams.get('loopId');
+  if (loopId) {
+    return NextResponse.json({ loopId, today, card: cards[loopId] ?? null });
+  }
+
+  const titles = new Map((await listLoops()).map((l) => [l.id, l.title]));
+  const entries: ReviewEntry[] = Object.values(cards)
+    .filter((c) => titles.has(c.loopId)) // loops removed since
+    .map((c) => ({ ...c, title: titles.get(c.loopId)! }))
+    .sort(
+      (a, b) => a.due.localeCompare(b.due) || a.title.localeCompare(b.title),
+    );
+
+  return NextResponse.json({
+    today,
+    due: entries.filter((c) => isDue(c, today)),
+    upcoming: entries.filter((c) => !isDue(c, today)),
+  });
+}
+
+// POST /api/reviews { loopId } → starts a review of a due loop: its runs
+// and hints from now on grade the review. 409 when it isn't due.
+export async function POST(req: Request) {
+  let body: { loopId?: unknown };
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+  if (!body.loopId || typeof body.loopId !== 'string') {
+    return NextResponse.json({ error: 'loopId is required' }, { status: 400 });
+  }
+
+  let loop: LoopManifest;
+  try {
+    loop = await loadLoop(body.loopId);
+  } catch (e) {
+    return loopErrorResponse(e);
+  }
+
+  const learnerId = await getOrCreateLearnerId();
+  const started = await startReview(learnerId, loop);
+  if (!started.ok) {
+    return NextResponse.json({ error: started.error }, { status: 409 });
+  }
+  return NextResponse.json({ card: started.card });
+}
@@ -0,0 +1,25 @@
+export const runtime = 'nodejs';
+
+import { NextResponse } from 'next/server';
+import { getRunCache, invalidateLoop } from '@/lib/runner/cache';
+
+// GET /api/run/cache → size and hit/miss counters of the run result cache
+export async function GET() {
+  return NextResponse.json(getRunCache().stats());
+}
+
+// DELETE /api/run/cache?loopId=… → dev only: forget a loop's cached results
+// (all results without loopId)
+export async function DELETE(req: Request) {
+  if (process.env.NODE_ENV === 'production') {
+    return NextResponse.json({ error: 'Not available' }, { status: 403 });
+  }
+
+  const loopId = new URL(req.url).searchParams.get('loopId');
+  if (loopId) return NextResponse.json({ removed: invalidateLoop(loopId) });
+
+  const cache = getRunCache();
+  const removed = cache.stats().entries;
+  cache.clear();
+  return NextResponse.json({ removed });
+}
@@ -0,0 +1,19 @@
+export const runtime = 'nodejs';
+
+import { NextResponse } from 'next/server';
+import { getRunCache } from '@/lib/runner/cache';
+import { getRunMetrics } from '@/lib/runner/metrics';
+import { getRunQueue } from '@/lib/runner/queue';
+import { peekWorkerPool } from '@/lib/runner/warm';
+
+// GET /api/run/metrics → run latency per backend (p50/p95 of queue wait and
+// run time), the run queue, the result cache, and the warm pool's workers if
+// it is running
+export async function GET() {
+  return NextResponse.json({
+    latency: getRunMetrics(),
+    queue: getRunQueue().stats(),
+    cache: getRunCache().stats(),
+    pool: peekWorkerPool()?.stats() ?? null,
+  });
+}
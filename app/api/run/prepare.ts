@@ -0,0 +1,293 @@
+import { NextResponse } from 'next/server';
+import { failingTestNames, recordRunEvent } from '@/lib/analytics';
+import { isGlitchId } from '@/lib/glitches';
+import { getOrCreateLearnerId } from '@/lib/learner';
+import { LANGUAGES, loopLanguage } from '@/lib/loops/languages';
+import { loopRunBundle } from '@/lib/loops/bundle';
+import { tagExample } from '@/lib/loops/examples';
+import { submittedFiles } from '@/lib/loops/files';
+import { folderReader, loadLoop } from '@/lib/loops/load';
+import { loopErrorResponse } from '@/lib/loops/http';
+import { loopTestFiles, type LoopManifest } from '@/lib/loops/schema';
+import { evaluatePerformance } from '@/lib/perf/estimate';
+import { isPerfHarnessTest } from '@/lib/perf/harness';
+import type { PerformanceBudget } from '@/lib/perf/types';
+import { recordRun } from '@/lib/progress';
+import { recordReviewRun } from '@/lib/review';
+import { recordSubmission } from '@/lib/submissions';
+import {
+  getRunner,
+  type RunEvent,
+  type RunBundle,
+  type RunOutcome,
+  type Runner,
+} from '@/lib/runner';
+import { getRunCache, runCacheKey } from '@/lib/runner/cache';
+import { recordRunLatency } from '@/lib/runner/metrics';
+import {
+  getRunQueue,
+  RunRejectedError,
+  type QueueTicket,
+} from '@/lib/runner/queue';
+import { HIDDEN_OUTPUT, redactHidden } from '@/lib/runner/visibility';
+
+type RunBody = {
+  loopId: string;
+  code?: string; // single-file loops
+  files?: Record<string, string>; // editable files, by path
+  mode?: 'normal' | 'glitch';
+  glitchId?: string | null; // required when mode === 'glitch'
+};
+
+export type PreparedRun = {
+  learnerId: string;
+  loopId: string;
+  hintBudget: number;
+  files: Record<string, string>; // the learner's editable files
+  mode: 'normal' | 'glitch';
+  glitchId: string | null;
+  runner: Runner;
+  bundle: RunBundle;
+  hasHiddenTests: boolean;
+  performance: PerformanceBudget | null;
+  cacheKey: string;
+  cached: RunOutcome | null; // identical run seen before: no queue, no runner
+  ticket: QueueTicket | null; // place in the run queue, reserved up front
+};
+
+// 429 for a run the queue turned away (also used by the studio's checks).
+export function runRejectedResponse(e: RunRejectedError) {
+  return NextResponse.json(
+    { error: e.message, reason: e.reason, retryAfterMs: e.retryAfterMs },
+    {
+      status: 429,
+      headers: { 'Retry-After': String(Math.ceil(e.retryAfterMs / 1000)) },
+    },
+  );
+}
+
+// Shared by POST /api/run and POST /api/run/stream: validate the request and
+// load everything the runner needs. Returns an error response on failure.
+export async function prepareRun(
+  req: Request,
+): Promise<PreparedRun | NextResponse> {
+  let body: RunBody;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  const { loopId } = body;
+  const mode = body.mode ?? 'normal';
+  const glitchId = mode === 'glitch' ? (body.glitchId ?? null) : null;
+
+  if (!loopId || typeof loopId !== 'string') {
+    return NextResponse.json({ error: 'loopId is required' }, { status: 400 });
+  }
+  if (mode !== 'normal' && mode !== 'glitch') {
+    return NextResponse.json(
+      { error: 'mode must be "normal" or "glitch"' },
+      { status: 400 },
+    );
+  }
+
+  let loop: LoopManifest;
+  try {
+    loop = await loadLoop(loopId);
+  } catch (e) {
+    return loopErrorResponse(e);
+  }
+  const glitches = loop.glitches ?? [];
+
+  const submitted = submittedFiles(loop, body);
+  if (!submitted.ok) {
+    return NextResponse.json({ error: submitted.error }, { status: 400 });
+  }
+
+  // Glitch rounds are graded against the normal tests; only the glitch id is checked
+  if (mode === 'glitch') {
+    if (!isGlitchId(glitchId) || !glitches.includes(glitchId)) {
+      return NextResponse.json(
+        { error: `Unknown glitchId for ${loopId}` },
+        { status: 400 },
+      );
+    }
+  }
+
+  const built = await loopRunBundle(
+    loop,
+    submitted.files,
+    folderReader(loopId),
+  );
+  if (!built.ok) {
+    return NextResponse.json({ error: built.error }, { status: 404 });
+  }
+  const { bundle } = built;
+  const language = loopLanguage(loop);
+
+  let runner: Runner;
+  try {
+    runner = getRunner();
+  } catch (e: unknown) {
+    return NextResponse.json({ error: (e as Error).message }, { status: 500 });
+  }
+  if (!runner.languages.includes(language)) {
+    return NextResponse.json(
+      {
+        error: `The ${runner.name} runner can't run ${LANGUAGES[language].label} loops (set TRYLOOP_RUNNER=docker)`,
+      },
+      { status: 501 },
+    );
+  }
+
+  const cacheKey = runCacheKey(runner, bundle);
+  const cached = getRunCache().get(cacheKey);
+
+  // Last: a rejected run (rate limit, full queue) costs no place in line.
+  // Cached results cost nothing, so they skip both.
+  const learnerId = await getOrCreateLearnerId();
+  let ticket: QueueTicket | null = null;
+  try {
+    if (!cached) ticket = getRunQueue().reserve(learnerId);
+  } catch (e) {
+    if (!(e instanceof RunRejectedError)) throw e;
+    return runRejectedResponse(e);
+  }
+
+  return {
+    learnerId,
+    loopId,
+    hintBudget: loop.hintBudget,
+    files: submitted.files,
+    mode,
+    glitchId,
+    runner,
+    bundle,
+    hasHiddenTests: loopTestFiles(loop).hidden.length > 0,
+    performance: loop.performance ?? null,
+    cacheKey,
+    cached,
+    ticket,
+  };
+}
+
+// Waits for the run's place in the queue, runs it and records its latency.
+// A cached result is replayed instead (test events included); a fresh one is
+// stored for the next identical run.
+export async function executeRun(
+  run: PreparedRun,
+  opts: {
+    onEvent?: (event: RunEvent) => void;
+    onPosition?: (position: number) => void;
+  } = {},
+): Promise<RunOutcome> {
+  if (run.cached) {
+    run.cached.tests.forEach((test) => opts.onEvent?.({ type: 'test', test }));
+    recordRunLatency({
+      runner: run.runner.name,
+      at: new Date().toISOString(),
+      queuedMs: 0,
+      runMs: 0,
+      passed: run.cached.passed,
+      cached: true,
+    });
+    return run.cached;
+  }
+
+  const enqueuedAt = performance.now();
+  let startedAt = enqueuedAt;
+
+  const result = await run.ticket!.run(() => {
+    startedAt = performance.now();
+    return run.runner.run(run.bundle, opts.onEvent);
+  }, opts.onPosition);
+
+  recordRunLatency({
+    runner: run.runner.name,
+    at: new Date().toISOString(),
+    queuedMs: Math.round(startedAt - enqueuedAt),
+    runMs: Math.round(performance.now() - startedAt),
+    passed: result.passed,
+    cached: false,
+  });
+  getRunCache().set(run.cacheKey, run.loopId, result);
+  return result;
+}
+
+// Response body for a finished run (also the payload of the stream's "done" event).
+// Hidden tests are redacted, and the raw report and output would leak them, so
+// those are dropped.
+// Performance is its own category: a correct but too slow run doesn't pass.
+export function runResponseBody(run: PreparedRun, result: RunOutcome) {
+  const tests = result.tests.filter((t) => !isPerfHarnessTest(t));
+  const correct = result.passed && !tests.some((t) => t.state === 'fail');
+  const performance = run.performance
+    ? evaluatePerformance(run.performance, result.perf)
+    : null;
+
+  return {
+    passed: correct && (performance?.passed ?? true),
+    mode: run.mode,
+    glitchId: run.glitchId,
+    runner: run.runner.name,
+    cached: run.cached != null,
+    stdout: run.hasHiddenTests ? HIDDEN_OUTPUT : result.stdout,
+    stderr: run.hasHiddenTests ? HIDDEN_OUTPUT : result.stderr,
+    tests: tests.map(tagExample).map(redactHidden),
+    performance,
+    report: run.hasHiddenTests ? null : result.report, // keep raw while stabilizing
+  };
+}
+
+// Every finished run goes into the learner's progress, review queue,
+// submission history and the instructor dashboard's events.
+// A storage failure is logged but never fails the run itself.
+export async function saveRun(
+  run: PreparedRun,
+  body: ReturnType<typeof runResponseBody>,
+): Promise<{ submissionId: string | null }> {
+  let submissionId: string | null = null;
+  try {
+    const progress = await recordRun(run.learnerId, run.loopId, {
+      passed: body.passed,
+      mode: run.mode,
+      glitchId: run.glitchId,
+      testsPassed: body.tests.filter((t) => t.state === 'pass').length,
+      testsTotal: body.tests.length,
+    });
+    await recordReviewRun(
+      run.learnerId,
+      { id: run.loopId, hintBudget: run.hintBudget },
+      { passed: body.passed, mode: run.mode },
+      progress,
+    );
+    const submission = await recordSubmission(run.learnerId, run.loopId, {
+      code: Object.values(run.files)[0] ?? '',
+      files: run.files,
+      passed: body.passed,
+      mode: run.mode,
+      glitchId: run.glitchId,
+      tests: body.tests.map(({ name, state, visibility, category }) => ({
+        name,
+        state,
+        visibility,
+        category,
+      })),
+    });
+    submissionId = submission.id;
+  } catch (e) {
+    console.error('Could not record run', e);
+  }
+
+  // Analytics last, on its own: a failed append loses only the event
+  await recordRunEvent({
+    learnerId: run.learnerId,
+    loopId: run.loopId,
+    mode: run.mode,
+    passed: body.passed,
+    failingTests: failingTestNames(body.tests),
+  }).catch((e) => console.error('Could not record run event', e));
+
+  return { submissionId };
+}
@@ -0,0 +1,70 @@
+export const runtime = 'nodejs';
+
+import { NextResponse } from 'next/server';
+import { tagExample } from '@/lib/loops/examples';
+import { isPerfHarnessTest } from '@/lib/perf/harness';
+import { encodeSseEvent } from '@/lib/runner/sse';
+import { redactHidden } from '@/lib/runner/visibility';
+import {
+  executeRun,
+  prepareRun,
+  runResponseBody,
+  saveRun,
+} from '@/app/api/run/prepare';
+
+// Same as POST /api/run, but streams progress as Server-Sent Events:
+//   queued (while waiting, with the position) → starting → started →
+//   test (one per test) → done (same body as /api/run)
+// Validation errors and 429s are plain JSON responses, before any stream starts.
+// A client that disconnects while queued gives up its place. Cached results
+// replay their test events right away.
+export async function POST(req: Request) {
+  const run = await prepareRun(req);
+  if (run instanceof NextResponse) return run;
+
+  const encoder = new TextEncoder();
+
+  let closed = false;
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: string, data: unknown) => {
+        if (closed) return;
+        controller.enqueue(encoder.encode(encodeSseEvent(event, data)));
+      };
+
+      try {
+        const result = await executeRun(run, {
+          onEvent: (e) => {
+            if (e.type !== 'test') return send(e.type, e);
+            // The performance harness is reported in "done", not as a test
+            if (!isPerfHarnessTest(e.test)) {
+              send(e.type, { ...e, test: redactHidden(tagExample(e.test)) });
+            }
+          },
+          onPosition: (position) => send('queued', { position }),
+        });
+        const body = runResponseBody(run, result);
+        const saved = await saveRun(run, body);
+        send('done', { ...body, ...saved });
+      } catch (e: unknown) {
+        send('error', { error: (e as Error).message ?? 'Run failed' });
+      } finally {
+        if (!closed) controller.close();
+        closed = true;
+      }
+    },
+    cancel() {
+      closed = true;
+      run.ticket?.cancel();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+    },
+  });
+}
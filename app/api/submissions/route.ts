@@ -0,0 +1,22 @@
+export const runtime = 'nodejs';
+
+import { NextResponse } from 'next/server';
+import { getOrCreateLearnerId } from '@/lib/learner';
+import { isValidLoopId } from '@/lib/loops/load';
+import { listSubmissions } from '@/lib/submissions';
+
+// GET /api/submissions?loopId=… → { submissions } for this learner, newest first
+export async function GET(req: Request) {
+  const loopId = new URL(req.url).searchParams.get('loopId');
+  if (!loopId) {
+    return NextResponse.json({ error: 'loopId is required' }, { status: 400 });
+  }
+  if (!isValidLoopId(loopId)) {
+    return NextResponse.json({ error: 'Invalid loopId' }, { status: 400 });
+  }
+
+  const learnerId = await getOrCreateLearnerId();
+  const submissions = await listSubmissions(learnerId, loopId);
+
+  return NextResponse.json({ submissions: [...submissions].reverse() });
+}
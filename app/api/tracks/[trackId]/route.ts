@@ -0,0 +1,35 @@
+export const runtime = 'nodejs';
+
+import { NextResponse } from 'next/server';
+import { getOrCreateLearnerId } from '@/lib/learner';
+import { getProgress } from '@/lib/progress';
+import { loadTrack, trackLoopInfos } from '@/lib/tracks/load';
+import { TrackValidationError } from '@/lib/tracks/schema';
+import { trackStatus } from '@/lib/tracks/status';
+
+// GET /api/tracks/:trackId → { track: TrackStatus } for this learner
+export async function GET(
+  _req: Request,
+  { params }: { params: Promise<{ trackId: string }> },
+) {
+  const { trackId } = await params;
+
+  try {
+    const track = await loadTrack(trackId);
+    const learnerId = await getOrCreateLearnerId();
+    const [loops, progress] = await Promise.all([
+      trackLoopInfos(),
+      getProgress(learnerId),
+    ]);
+    return NextResponse.json({ track: trackStatus(track, loops, progress) });
+  } catch (e) {
+    // Same mapping as loopErrorResponse
+    if (e instanceof TrackValidationError) {
+      return NextResponse.json(
+        { error: e.message, issues: e.issues },
+        { status: 500 },
+      );
+    }
+    return NextResponse.json({ error: 'Track not found' }, { status: 404 });
+  }
+}
@@ -0,0 +1,35 @@
+export const runtime = 'nodejs';
+
+import { NextResponse } from 'next/server';
+import { getOrCreateLearnerId } from '@/lib/learner';
+import { getProgress } from '@/lib/progress';
+import { listTracks, trackLoopInfos } from '@/lib/tracks/load';
+import { nextLoopAfter, trackStatus } from '@/lib/tracks/status';
+
+// GET /api/tracks → { tracks: TrackStatus[] } for this learner: each loop
+// locked, available or completed
+// GET /api/tracks?loopId=… → { loopId, next: [{ track, loop }] }: where to
+// go after that loop, in each track that has it
+export async function GET(req: Request) {
+  const learnerId = await getOrCreateLearnerId();
+  const [tracks, loops, progress] = await Promise.all([
+    listTracks(),
+    trackLoopInfos(),
+    getProgress(learnerId),
+  ]);
+  const statuses = tracks.map((t) => trackStatus(t, loops, progress));
+
+  const loopId = new URL(req.url).searchParams.get('loopId');
+  if (loopId) {
+    const next = statuses
+      .filter((s) => s.loops.some((l) => l.id === loopId))
+      .map((s) => ({
+        track: { id: s.id, title: s.title },
+        loop: nextLoopAfter(s, loopId),
+      }))
+      .filter((n) => n.loop);
+    return NextResponse.json({ loopId, next });
+  }
+
+  return NextResponse.json({ tracks: statuses });
+}
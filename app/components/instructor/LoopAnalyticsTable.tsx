@@ -0,0 +1,104 @@
+import type { Counted, LoopAnalytics } from '@/lib/analytics/types';
+
+function percent(rate: number | null) {
+  return rate == null ? '–' : `${Math.round(rate * 100)}%`;
+}
+
+function CountedList({ items, empty }: { items: Counted[]; empty: string }) {
+  if (!items.length) return <span className='opacity-50'>{empty}</span>;
+  return (
+    <ol className='space-y-0.5'>
+      {items.map((c) => (
+        <li key={c.name} className='flex justify-between gap-3'>
+          <span className='break-words'>{c.name}</span>
+          <span className='shrink-0 tabular-nums opacity-60'>{c.count}</span>
+        </li>
+      ))}
+    </ol>
+  );
+}
+
+// Per-loop numbers, then where learners get stuck
+export default function LoopAnalyticsTable({
+  loops,
+}: {
+  loops: LoopAnalytics[];
+}) {
+  return (
+    <div className='space-y-4'>
+      {loops.map((loop) => {
+        const tiers = [1, 2, 3] as const;
+        return (
+          <section key={loop.loopId} className='rounded-xl border p-5'>
+            <div className='flex flex-wrap items-baseline justify-between gap-2'>
+              <h2 className='font-medium'>{loop.title}</h2>
+              <span className='font-mono text-xs opacity-60'>
+                {loop.loopId}
+              </span>
+            </div>
+
+            <dl className='mt-3 grid grid-cols-2 gap-3 text-sm sm:grid-cols-5'>
+              {[
+                ['Learners', String(loop.learners)],
+                ['Runs', String(loop.runs)],
+                ['Pass rate', percent(loop.passRate)],
+                ['Solved', percent(loop.solveRate)],
+                [
+                  'Median attempts',
+                  loop.medianAttemptsToSolve == null
+                    ? '–'
+                    : String(loop.medianAttemptsToSolve),
+                ],
+              ].map(([label, value]) => (
+                <div key={label}>
+                  <dt className='text-xs opacity-60'>{label}</dt>
+                  <dd className='text-lg tabular-nums'>{value}</dd>
+                </div>
+              ))}
+            </dl>
+
+            <div className='mt-4 grid gap-4 text-sm sm:grid-cols-3'>
+              <div>
+                <h3 className='mb-1 text-xs font-medium uppercase tracking-wide opacity-70'>
+                  Failing tests
+                </h3>
+                <CountedList items={loop.failingTests} empty='None' />
+              </div>
+              <div>
+                <h3 className='mb-1 text-xs font-medium uppercase tracking-wide opacity-70'>
+                  Hints ({loop.hints})
+                </h3>
+                {tiers.map((tier) => {
+                  const n = loop.hintTiers[tier];
+                  const share = loop.hints ? n / loop.hints : 0;
+                  return (
+                    <div key={tier} className='flex items-center gap-2'>
+                      <span className='w-12 shrink-0 opacity-70'>
+                        Tier {tier}
+                      </span>
+                      <div className='h-2 flex-1 rounded bg-black/5'>
+                        <div
+                          className='h-2 rounded bg-black/40'
+                          style={{ width: `${share * 100}%` }}
+                        />
+                      </div>
+                      <span className='w-6 text-right tabular-nums opacity-60'>
+                        {n}
+                      </span>
+                    </div>
+                  );
+                })}
+              </div>
+              <div>
+                <h3 className='mb-1 text-xs font-medium uppercase tracking-wide opacity-70'>
+                  Bug patterns
+                </h3>
+                <CountedList items={loop.bugPatterns} empty='None detected' />
+              </div>
+            </div>
+          </section>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,222 @@
+'use client';
+
+import { useEffect, useRef } from 'react';
+import { closeBrackets, closeBracketsKeymap } from '@codemirror/autocomplete';
+import {
+  defaultKeymap,
+  history,
+  historyKeymap,
+  indentWithTab,
+} from '@codemirror/commands';
+import { javascript } from '@codemirror/lang-javascript';
+import { python } from '@codemirror/lang-python';
+import {
+  bracketMatching,
+  defaultHighlightStyle,
+  indentOnInput,
+  syntaxHighlighting,
+} from '@codemirror/language';
+import {
+  EditorState,
+  RangeSet,
+  StateEffect,
+  StateField,
+  type Range,
+  type Text,
+} from '@codemirror/state';
+import {
+  Decoration,
+  EditorView,
+  GutterMarker,
+  drawSelection,
+  gutter,
+  highlightActiveLine,
+  highlightActiveLineGutter,
+  keymap,
+  lineNumbers,
+  type DecorationSet,
+} from '@codemirror/view';
+import type { LoopLanguage } from '@/lib/loops/languages';
+import type { LineMarker } from '@/lib/runner/stack';
+
+type Props = {
+  value: string;
+  onChange: (value: string) => void;
+  language?: LoopLanguage;
+  markers?: LineMarker[]; // failing lines from the last run
+  readOnly?: boolean; // fixtures in multi-file loops
+};
+
+// ---------------------------------------------------------------------------
+// Failure markers: a gutter dot (hover for the messages) + a tinted line.
+// Both are mapped through edits, so they stay on the right line while typing.
+
+class FailureMarker extends GutterMarker {
+  constructor(readonly message: string) {
+    super();
+  }
+
+  eq(other: FailureMarker) {
+    return other.message === this.message;
+  }
+
+  toDOM() {
+    const el = document.createElement('span');
+    el.className = 'cm-failure-marker';
+    el.textContent = '●';
+    el.title = this.message;
+    return el;
+  }
+}
+
+type MarkerState = { gutter: RangeSet<GutterMarker>; lines: DecorationSet };
+
+const setMarkers = StateEffect.define<LineMarker[]>();
+
+function buildMarkers(doc: Text, markers: LineMarker[]): MarkerState {
+  const dots: Range<GutterMarker>[] = [];
+  const lines: Range<Decoration>[] = [];
+
+  for (const m of markers) {
+    if (m.line < 1 || m.line > doc.lines) continue;
+    const from = doc.line(m.line).from;
+    const message = m.messages.join('\n');
+    dots.push(new FailureMarker(message).range(from));
+    lines.push(
+      Decoration.line({
+        class: 'cm-failure-line',
+        attributes: { title: message },
+      }).range(from),
+    );
+  }
+
+  return {
+    gutter: RangeSet.of(dots, true),
+    lines: Decoration.set(lines, true),
+  };
+}
+
+const markerField = StateField.define<MarkerState>({
+  create: () => ({ gutter: RangeSet.empty, lines: Decoration.none }),
+  update(value, tr) {
+    let next = {
+      gutter: value.gutter.map(tr.changes),
+      lines: value.lines.map(tr.changes),
+    };
+    for (const e of tr.effects) {
+      if (e.is(setMarkers)) next = buildMarkers(tr.state.doc, e.value);
+    }
+    return next;
+  },
+  provide: (f) => EditorView.decorations.from(f, (v) => v.lines),
+});
+
+const failureGutter = gutter({
+  class: 'cm-failure-gutter',
+  markers: (view) => view.state.field(markerField).gutter,
+  initialSpacer: () => new FailureMarker(''),
+});
+
+const theme = EditorView.theme({
+  '&': { fontSize: '14px' },
+  '&.cm-focused': { outline: 'none' },
+  '.cm-scroller': {
+    minHeight: '14rem',
+    fontFamily: 'var(--font-geist-mono), ui-monospace, monospace',
+    lineHeight: '1.625',
+  },
+  '.cm-gutters': { backgroundColor: 'transparent', border: 'none' },
+  '.cm-failure-marker': { color: '#dc2626', cursor: 'help' },
+  '.cm-failure-line': { backgroundColor: 'rgba(220, 38, 38, 0.1)' },
+});
+
+const LANGUAGE_SUPPORT = {
+  typescript: () => javascript({ typescript: true }),
+  python: () => python(),
+} satisfies Record<LoopLanguage, unknown>;
+
+// ---------------------------------------------------------------------------
+
+// Stable default, so re-renders don't reset markers that were mapped through edits
+const NO_MARKERS: LineMarker[] = [];
+
+// CodeMirror 6 editor for TypeScript or Python: highlighting, bracket
+// matching, auto-indent, Tab to indent, and failure markers in the gutter.
+export default function CodeEditor({
+  value,
+  onChange,
+  language = 'typescript',
+  markers = NO_MARKERS,
+  readOnly = false,
+}: Props) {
+  const hostRef = useRef<HTMLDivElement | null>(null);
+  const viewRef = useRef<EditorView | null>(null);
+  const onChangeRef = useRef(onChange);
+
+  useEffect(() => {
+    onChangeRef.current = onChange;
+  }, [onChange]);
+
+  // Create the view once per language (and read-only mode); `value` and `markers` are pushed in below
+  useEffect(() => {
+    const view = new EditorView({
+      parent: hostRef.current!,
+      extensions: [
+        lineNumbers(),
+        failureGutter,
+        highlightActiveLineGutter(),
+        history(),
+        drawSelection(),
+        indentOnInput(),
+        bracketMatching(),
+        closeBrackets(),
+        highlightActiveLine(),
+        syntaxHighlighting(defaultHighlightStyle, { fallback: true }),
+        LANGUAGE_SUPPORT[language](),
+        keymap.of([
+          ...closeBracketsKeymap,
+          ...defaultKeymap,
+          ...historyKeymap,
+          indentWithTab,
+        ]),
+        markerField,
+        theme,
+        EditorState.readOnly.of(readOnly),
+        EditorView.editable.of(!readOnly),
+        EditorView.updateListener.of((u) => {
+          if (u.docChanged) onChangeRef.current(u.state.doc.toString());
+        }),
+      ],
+    });
+    viewRef.current = view;
+
+    return () => {
+      view.destroy();
+      viewRef.current = null;
+    };
+  }, [language, readOnly]);
+
+  // Outside changes (reset, restore, glitch round) replace the document;
+  // also fills a freshly created view
+  useEffect(() => {
+    const view = viewRef.current;
+    if (!view) return;
+    const current = view.state.doc.toString();
+    if (current !== value) {
+      view.dispatch({
+        changes: { from: 0, to: current.length, insert: value },
+      });
+    }
+  }, [value, language, readOnly]);
+
+  useEffect(() => {
+    viewRef.current?.dispatch({ effects: setMarkers.of(markers) });
+  }, [markers, language, readOnly]);
+
+  return (
+    <div
+      ref={hostRef}
+      className='overflow-hidden rounded-lg border bg-black/5 text-sm'
+    />
+  );
+}
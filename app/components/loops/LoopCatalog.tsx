@@ -0,0 +1,170 @@
+'use client';
+
+import Link from 'next/link';
+import { useEffect, useMemo, useState } from 'react';
+import type { LoopSummary } from '@/lib/loops/catalog';
+import { LANGUAGES } from '@/lib/loops/languages';
+import {
+  loopStatus,
+  type LoopProgress,
+  type LoopStatus,
+} from '@/lib/progress/types';
+
+type Props = {
+  loops: LoopSummary[];
+};
+
+type SortKey = 'id' | 'title' | 'difficulty';
+
+const STATUS_LABEL: Record<LoopStatus, string> = {
+  solved: '✅ Solved',
+  attempted: '🟡 Attempted',
+};
+
+export default function LoopCatalog({ loops }: Props) {
+  const [sortKey, setSortKey] = useState<SortKey>('difficulty');
+  const [difficulty, setDifficulty] = useState<number | 'all'>('all');
+  // Progress is per learner (cookie), so it's fetched after hydration
+  const [progress, setProgress] = useState<Record<string, LoopProgress>>({});
+
+  useEffect(() => {
+    let cancelled = false;
+
+    fetch('/api/progress')
+      .then((res) => (res.ok ? res.json() : null))
+      .then((payload: { loops: Record<string, LoopProgress> } | null) => {
+        if (!cancelled && payload) setProgress(payload.loops);
+      })
+      .catch(() => {
+        // no progress shown; the catalog still works
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const difficulties = useMemo(
+    () =>
+      Array.from(new Set(loops.map((l) => l.difficulty))).sort((a, b) => a - b),
+    [loops],
+  );
+
+  const visible = useMemo(() => {
+    const filtered =
+      difficulty === 'all'
+        ? loops
+        : loops.filter((l) => l.difficulty === difficulty);
+
+    return [...filtered].sort((a, b) => {
+      if (sortKey === 'difficulty') {
+        return a.difficulty - b.difficulty || a.id.localeCompare(b.id);
+      }
+      return a[sortKey].localeCompare(b[sortKey]);
+    });
+  }, [loops, sortKey, difficulty]);
+
+  return (
+    <div>
+      <div className='mb-4 flex flex-wrap items-center gap-3 text-sm'>
+        <label className='flex items-center gap-2'>
+          <span className='opacity-70'>Sort</span>
+          <select
+            value={sortKey}
+            onChange={(e) => setSortKey(e.target.value as SortKey)}
+            className='rounded-lg border bg-transparent px-2 py-1.5'
+          >
+            <option value='difficulty'>Difficulty</option>
+            <option value='title'>Title</option>
+            <option value='id'>Id</option>
+          </select>
+        </label>
+
+        <label className='flex items-center gap-2'>
+          <span className='opacity-70'>Difficulty</span>
+          <select
+            value={String(difficulty)}
+            onChange={(e) =>
+              setDifficulty(
+                e.target.value === 'all' ? 'all' : Number(e.target.value),
+              )
+            }
+            className='rounded-lg border bg-transparent px-2 py-1.5'
+          >
+            <option value='all'>All</option>
+            {difficulties.map((d) => (
+              <option key={d} value={d}>
+                {d}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        <div className='ml-auto text-xs opacity-60'>
+          {visible.length} of {loops.length} loops
+        </div>
+      </div>
+
+      {visible.length ? (
+        <ul className='space-y-3'>
+          {visible.map((loop) => {
+            const p = progress[loop.id];
+            const status = loopStatus(p);
+            return (
+              <li key={loop.id}>
+                <Link
+                  href={`/loops/${loop.id}`}
+                  className='block rounded-xl border p-4 hover:bg-black/5'
+                >
+                  <div className='flex items-baseline justify-between gap-4'>
+                    <div className='font-medium'>{loop.title}</div>
+                    <div className='text-xs opacity-70'>
+                      {status ? STATUS_LABEL[status] : 'Not started'}
+                      {p ? (
+                        <span className='ml-2 opacity-70'>
+                          {p.attempts} {p.attempts === 1 ? 'run' : 'runs'}
+                          {p.hintsUsed ? ` · ${p.hintsUsed} hints` : ''}
+                        </span>
+                      ) : null}
+                    </div>
+                  </div>
+                  <div className='mt-1 flex flex-wrap items-center gap-2 text-xs opacity-60'>
+                    <span className='font-mono'>{loop.id}</span>
+                    <span>•</span>
+                    <span>{LANGUAGES[loop.language].label}</span>
+                    <span>•</span>
+                    <span>Difficulty {loop.difficulty}</span>
+                    <span>•</span>
+                    <span>{loop.hintBudget} hints</span>
+                    {loop.exports.length ? (
+                      <>
+                        <span>•</span>
+                        <span>Exports: {loop.exports.join(', ')}</span>
+                      </>
+                    ) : null}
+                    {loop.fileCount > 1 ? (
+                      <>
+                        <span>•</span>
+                        <span>{loop.fileCount} files</span>
+                      </>
+                    ) : null}
+                    {loop.glitches.length ? (
+                      <>
+                        <span>•</span>
+                        <span>{loop.glitches.length} glitches</span>
+                      </>
+                    ) : null}
+                  </div>
+                </Link>
+              </li>
+            );
+          })}
+        </ul>
+      ) : (
+        <div className='rounded-xl border p-4 text-sm opacity-70'>
+          No loops match this filter.
+        </div>
+      )}
+    </div>
+  );
+}
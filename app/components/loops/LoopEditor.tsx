@@ -2,26 +2,46 @@
 'use client';
 
 import { useEffect, useMemo, useRef, useState } from 'react';
+import CodeEditor from '@/app/components/loops/CodeEditor';
+import { useRunResults } from '@/app/components/loops/RunResults';
+import PerformancePanel from '@/app/components/loops/PerformancePanel';
+import SubmissionHistory from '@/app/components/loops/SubmissionHistory';
+import { missingExports as findMissingExports } from '@/lib/loops/exports';
+import { LANGUAGES, type LoopLanguage } from '@/lib/loops/languages';
+import type { LoopFile } from '@/lib/loops/schema';
+import { readSseStream } from '@/lib/runner/sse';
+import { failureMarkers } from '@/lib/runner/stack';
+import type { HintBalance } from '@/lib/hints/ledger';
+import type { PerfResult } from '@/lib/perf/types';
+import type { ReviewCard } from '@/lib/review/sm2';
+import type { UiTest } from '@/lib/runner/types';
+import { submissionFiles, type Submission } from '@/lib/submissions/types';
 
 type Props = {
   loopId: string;
-  initialCode: string;
-  expectedExports?: string[];
+  files: LoopFile[]; // the main (first editable) file comes first
+  language?: LoopLanguage;
   hintBudget?: number; // tokens per loop (e.g. 3)
-};
-
-type UiTest = {
-  name: string;
-  state: 'pass' | 'fail' | 'skip' | 'todo' | 'unknown';
-  file?: string;
-  error?: string;
+  glitches?: string[];
+  preview?: boolean; // authoring studio: no runs, hints or history
+  review?: boolean; // review queue: a fresh solve from the starter, no history
 };
 
 type RunResponse = {
   passed: boolean;
+  mode?: 'normal' | 'glitch';
+  glitchId?: string | null;
   stdout?: string;
   stderr?: string;
   tests?: UiTest[];
+  performance?: PerfResult | null; // loops with a performance budget
+  cached?: boolean; // same code as an earlier run: its stored result
+};
+
+type GlitchRound = {
+  glitchId: string;
+  label: string;
+  code: string;
 };
 
 type CoachResponse = {
@@ -30,19 +50,21 @@ type CoachResponse = {
   questions: string[];
   doc: { label: string; url: string };
   microExample?: string; // tier 3 optional
+  file?: string; // multi-file loops: where the hint applies
   safety: { no_full_solution: true; notes: string };
 };
 
-function countLines(s: string) {
-  return s.split('\n').length;
-}
-
-function hintsKey(loopId: string) {
-  return `tryloop:hintsLeft:${loopId}`;
+async function fetchSubmissions(loopId: string): Promise<Submission[]> {
+  const res = await fetch(
+    `/api/submissions?loopId=${encodeURIComponent(loopId)}`,
+  );
+  if (!res.ok) return [];
+  const payload = await res.json();
+  return payload.submissions ?? [];
 }
 
-function tierKey(loopId: string) {
-  return `tryloop:hintTierUsed:${loopId}`;
+function countLines(s: string) {
+  return s.split('\n').length;
 }
 
 function isCoachResponse(x: unknown): x is CoachResponse {
@@ -67,24 +89,58 @@ function isCoachResponse(x: unknown): x is CoachResponse {
 
 export default function LoopEditor({
   loopId,
-  initialCode,
-  expectedExports = [],
+  files: loopFiles,
+  language = 'typescript',
   hintBudget = 0,
+  glitches = [],
+  preview = false,
+  review = false,
 }: Props) {
-  const [code, setCode] = useState(initialCode);
+  const starters = useMemo(
+    () => Object.fromEntries(loopFiles.map((f) => [f.path, f.starter])),
+    [loopFiles],
+  );
+  const mainPath = (loopFiles.find((f) => !f.readOnly) ?? loopFiles[0]).path;
+
+  // Workspace contents (path → code) and the tab shown in the editor
+  const [files, setFiles] = useState<Record<string, string>>(starters);
+  const [activePath, setActivePath] = useState(mainPath);
+
+  const active = loopFiles.find((f) => f.path === activePath) ?? loopFiles[0];
+  const code = files[active.path] ?? '';
+  const setCode = (value: string) =>
+    setFiles((prev) => ({ ...prev, [active.path]: value }));
+
+  // Glitch round: debug a broken reference solution instead of the starter
+  const [glitch, setGlitch] = useState<GlitchRound | null>(null);
+  const [glitchPick, setGlitchPick] = useState<string>(glitches[0] ?? '');
+  const [glitchLoading, setGlitchLoading] = useState(false);
 
   const [running, setRunning] = useState(false);
   const [result, setResult] = useState<RunResponse | null>(null);
   const [runError, setRunError] = useState<string | null>(null);
 
+  // Live progress while /api/run/stream is in flight
+  const [runPhase, setRunPhase] = useState<string | null>(null);
+  const [liveTests, setLiveTests] = useState<UiTest[]>([]);
+
+  // Earlier runs of this loop (newest first)
+  const [submissions, setSubmissions] = useState<Submission[]>([]);
+
   const [coach, setCoach] = useState<CoachResponse | null>(null);
   const [coachLoading, setCoachLoading] = useState(false);
   const [coachError, setCoachError] = useState<string | null>(null);
 
-  // Hint tokens + tier progression (per loop)
+  // Hint tokens + tier progression (per loop), owned by the server ledger
   const [hintsLeft, setHintsLeft] = useState<number>(hintBudget);
   const [tierUsed, setTierUsed] = useState<number>(0); // 0..3 (0 = none revealed yet)
 
+  // Review session (started on load), then its outcome
+  const [reviewNote, setReviewNote] = useState<{
+    active: boolean;
+    text: string;
+  } | null>(null);
+
   const isDev = process.env.NODE_ENV !== 'production';
 
   const coachRef = useRef<HTMLDivElement | null>(null);
@@ -94,52 +150,123 @@ export default function LoopEditor({
 
   // Sync editor and per-loop state on navigation
   useEffect(() => {
-    setCode(initialCode);
+    setFiles(starters);
+    setActivePath(mainPath);
     setResult(null);
     setRunError(null);
+    setGlitch(null);
 
     setCoach(null);
     setCoachError(null);
     setCoachLoading(false);
+  }, [starters, mainPath, loopId]);
 
-    // Load tokens
-    const hk =
-      typeof window !== 'undefined'
-        ? window.localStorage.getItem(hintsKey(loopId))
-        : null;
-
-    if (hk != null) {
-      const n = Number(hk);
-      setHintsLeft(Number.isFinite(n) ? n : hintBudget);
-    } else {
-      setHintsLeft(hintBudget);
-    }
+  const applyBalance = (b: HintBalance) => {
+    setHintsLeft(b.hintsLeft);
+    setTierUsed(b.tierUsed);
+  };
 
-    // Load tier
-    const tk =
-      typeof window !== 'undefined'
-        ? window.localStorage.getItem(tierKey(loopId))
-        : null;
-
-    if (tk != null) {
-      const n = Number(tk);
-      setTierUsed(Number.isFinite(n) ? Math.max(0, Math.min(3, n)) : 0);
-    } else {
-      setTierUsed(0);
-    }
-  }, [initialCode, loopId, hintBudget]);
+  // Load this learner's token balance + tier from the ledger
+  useEffect(() => {
+    if (preview) return;
+    let cancelled = false;
+
+    fetch(`/api/hints?loopId=${encodeURIComponent(loopId)}`)
+      .then((res) => (res.ok ? res.json() : null))
+      .then((b: HintBalance | null) => {
+        if (cancelled || !b) return;
+        setHintsLeft(b.hintsLeft);
+        setTierUsed(b.tierUsed);
+      })
+      .catch(() => {
+        // keep the defaults; /api/grade still enforces the budget
+      });
 
-  // Persist tokens
+    return () => {
+      cancelled = true;
+    };
+  }, [loopId, hintBudget, preview]);
+
+  // Start the review: the server refills hints and counts runs from here
   useEffect(() => {
-    if (typeof window === 'undefined') return;
-    window.localStorage.setItem(hintsKey(loopId), String(hintsLeft));
-  }, [loopId, hintsLeft]);
+    if (!review || preview) return;
+    let cancelled = false;
 
-  // Persist tier
+    (async () => {
+      const res = await fetch('/api/reviews', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ loopId }),
+      });
+      const payload = await res.json().catch(() => null);
+      if (cancelled) return;
+      if (!res.ok) {
+        setReviewNote({
+          active: false,
+          text: `${payload?.error ?? 'Could not start the review'}. Runs count as practice.`,
+        });
+        return;
+      }
+      setReviewNote({
+        active: true,
+        text: 'Review: solve it again from the starter. Your runs and hints set the next review.',
+      });
+      const balance = await fetch(
+        `/api/hints?loopId=${encodeURIComponent(loopId)}`,
+      ).then((r) => (r.ok ? r.json() : null));
+      if (cancelled || !balance) return;
+      setHintsLeft(balance.hintsLeft);
+      setTierUsed(balance.tierUsed);
+    })().catch(() => {
+      if (!cancelled) setReviewNote(null);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [loopId, review, preview]);
+
+  // A passing run ends the review: show when the next one is
+  const reviewActive = !!reviewNote?.active;
   useEffect(() => {
-    if (typeof window === 'undefined') return;
-    window.localStorage.setItem(tierKey(loopId), String(tierUsed));
-  }, [loopId, tierUsed]);
+    if (!reviewActive || !result?.passed || result.mode === 'glitch') return;
+    let cancelled = false;
+
+    fetch(`/api/reviews?loopId=${encodeURIComponent(loopId)}`)
+      .then((res) => (res.ok ? res.json() : null))
+      .then((payload: { card: ReviewCard | null } | null) => {
+        const card = payload?.card;
+        if (cancelled || !card) return;
+        setReviewNote({
+          active: false,
+          text: `Reviewed! Next review in ${card.intervalDays} ${card.intervalDays === 1 ? 'day' : 'days'}, on ${card.due}.`,
+        });
+      })
+      .catch(() => {
+        // the review is recorded either way
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [reviewActive, result, loopId]);
+
+  useEffect(() => {
+    if (preview) return;
+    let cancelled = false;
+
+    fetchSubmissions(loopId)
+      .then((list) => {
+        if (!cancelled) setSubmissions(list);
+      })
+      .catch(() => {
+        // history is optional
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [loopId, preview]);
 
   const stats = useMemo(() => {
     const lines = countLines(code);
@@ -147,15 +274,61 @@ export default function LoopEditor({
     return { lines, chars };
   }, [code]);
 
-  const missingExports = useMemo(() => {
-    if (!expectedExports.length) return [];
-    return expectedExports.filter(
-      (name) => !code.includes(`export function ${name}`),
-    );
-  }, [code, expectedExports]);
+  // Required exports still missing, per editable file
+  const missingByFile = useMemo(() => {
+    const out: Record<string, string[]> = {};
+    for (const f of loopFiles) {
+      if (f.readOnly || !f.exports?.length) continue;
+      const missing = findMissingExports(
+        files[f.path] ?? '',
+        f.exports,
+        language,
+      );
+      if (missing.length) out[f.path] = missing;
+    }
+    return out;
+  }, [files, loopFiles, language]);
+
+  const missingExports = missingByFile[active.path] ?? [];
+
+  // Only the editable files are sent; fixtures come from the manifest
+  const editableFiles = useMemo(
+    () =>
+      Object.fromEntries(
+        loopFiles
+          .filter((f) => !f.readOnly)
+          .map((f) => [f.path, files[f.path] ?? '']),
+      ),
+    [files, loopFiles],
+  );
 
   const tests = useMemo(() => result?.tests ?? [], [result]);
 
+  // Share the outcome with the page (example badges, next loop)
+  const setSharedRun = useRunResults()?.setRun;
+  useEffect(() => {
+    setSharedRun?.(
+      result
+        ? {
+            passed: result.passed,
+            mode: result.mode ?? 'normal',
+            tests: result.tests ?? [],
+          }
+        : null,
+    );
+  }, [result, setSharedRun]);
+
+  // Where the failing tests broke in each file (gutter markers)
+  const markersByFile = useMemo(
+    () =>
+      Object.fromEntries(
+        loopFiles.map((f) => [f.path, failureMarkers(tests, f.path)]),
+      ),
+    [tests, loopFiles],
+  );
+
+  const markers = markersByFile[active.path];
+
   const failedCount = useMemo(() => {
     return tests.filter((t) => t.state === 'fail').length;
   }, [tests]);
@@ -164,6 +337,35 @@ export default function LoopEditor({
     return tests.filter((t) => t.state === 'fail');
   }, [tests]);
 
+  // Every test passed, but the performance budget didn't
+  const tooSlow =
+    !!result?.performance &&
+    !result.performance.passed &&
+    !result.passed &&
+    tests.length > 0 &&
+    !failingTests.length;
+
+  const resultLabel = result?.passed
+    ? '✅ Passed'
+    : tooSlow
+      ? '🐢 Correct but too slow'
+      : `❌ Failed${failedCount ? ` (${failedCount})` : ''}`;
+
+  // Public tests are listed in full; hidden ones only as a summary
+  const publicTests = useMemo(
+    () => tests.filter((t) => t.visibility !== 'hidden'),
+    [tests],
+  );
+
+  const hidden = useMemo(() => {
+    const all = tests.filter((t) => t.visibility === 'hidden');
+    const failed = all.filter((t) => t.state === 'fail');
+    const categories = Array.from(
+      new Set(failed.map((t) => t.category).filter(Boolean)),
+    ) as string[];
+    return { total: all.length, failed: failed.length, categories };
+  }, [tests]);
+
   const showCoachControls =
     hintBudget > 0 && !!result && !result.passed && failingTests.length > 0;
 
@@ -181,31 +383,115 @@ export default function LoopEditor({
     setCoachError(null);
     setCoachLoading(false);
 
+    setResult(null);
+    setLiveTests([]);
+    setRunPhase('Starting runner…');
+
     try {
-      const res = await fetch('/api/run', {
+      const res = await fetch('/api/run/stream', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ loopId, code }),
+        body: JSON.stringify({
+          loopId,
+          files: editableFiles,
+          mode: glitch ? 'glitch' : 'normal',
+          glitchId: glitch?.glitchId ?? null,
+        }),
       });
 
-      const data = (await res.json()) as RunResponse & { error?: string };
-
-      if (!res.ok) {
-        setResult(null);
+      if (!res.ok || !res.body) {
+        const data = await res.json().catch(() => null);
         setRunError(data?.error ?? 'Run failed');
         return;
       }
 
-      setResult(data);
+      const final: { result?: RunResponse; error?: string } = {};
+
+      await readSseStream(res.body, (event, data: any) => {
+        if (event === 'queued') {
+          setRunPhase(`Waiting in queue (position ${data.position})…`);
+        } else if (event === 'starting') {
+          setRunPhase(`Starting ${data.runner} runner…`);
+        } else if (event === 'started') {
+          setRunPhase('Running tests…');
+        } else if (event === 'test') {
+          setLiveTests((prev) => [...prev, data.test]);
+        } else if (event === 'done') {
+          final.result = data;
+        } else if (event === 'error') {
+          final.error = data.error;
+        }
+      });
+
+      if (!final.result) {
+        setRunError(final.error ?? 'Run ended without a result');
+        return;
+      }
+
+      setResult(final.result);
+      setSubmissions(await fetchSubmissions(loopId).catch(() => submissions));
     } catch (e: any) {
       setResult(null);
       setRunError(e?.message ?? '[TryLoop] Failed to run tests');
     } finally {
       setRunning(false);
+      setRunPhase(null);
+      setLiveTests([]);
+    }
+  };
+
+  const handleStartGlitch = async () => {
+    if (!glitchPick) return;
+
+    setGlitchLoading(true);
+    setRunError(null);
+
+    try {
+      const res = await fetch('/api/glitch', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ loopId, glitchId: glitchPick }),
+      });
+
+      const data = await res.json();
+
+      if (!res.ok) {
+        setRunError(data?.error ?? 'Could not start glitch round');
+        return;
+      }
+
+      setGlitch({
+        glitchId: data.glitchId,
+        label: data.label,
+        code: data.code,
+      });
+      setFiles({ ...starters, [mainPath]: data.code });
+      setActivePath(mainPath);
+      setResult(null);
+      setCoach(null);
+      setCoachError(null);
+    } catch (e: any) {
+      setRunError(e?.message ?? '[TryLoop] Failed to start glitch round');
+    } finally {
+      setGlitchLoading(false);
     }
   };
 
-  // Spend 1 token to reveal the NEXT tier (only spend on success)
+  const handleRestore = (s: Submission) => {
+    setFiles((prev) => ({ ...prev, ...submissionFiles(s, mainPath) }));
+    setCoach(null);
+    setCoachError(null);
+  };
+
+  const handleExitGlitch = () => {
+    setGlitch(null);
+    setFiles(starters);
+    setResult(null);
+    setCoach(null);
+    setCoachError(null);
+  };
+
+  // Spend 1 token to reveal the NEXT tier (the server spends it)
   const handleGetHint = async () => {
     if (!showCoachControls) return;
     if (!result || result.passed) return;
@@ -226,7 +512,7 @@ export default function LoopEditor({
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
           loopId,
-          code,
+          files: editableFiles,
           failingTests,
           tier: nextTier, // ✅ tiered hint request
         }),
@@ -234,6 +520,9 @@ export default function LoopEditor({
 
       const payload = await gradeRes.json();
 
+      // The ledger's balance is authoritative, whether or not the hint was granted
+      if (payload?.hints) applyBalance(payload.hints);
+
       if (!gradeRes.ok) {
         setCoach(null);
         setCoachError(payload?.error ?? 'Coach mode failed');
@@ -246,10 +535,7 @@ export default function LoopEditor({
         return;
       }
 
-      // Success: set coach + advance tier + spend token
       setCoach(payload);
-      setTierUsed(nextTier);
-      setHintsLeft((h) => Math.max(0, h - 1));
 
       // Scroll again so the hint lands nicely
       requestAnimationFrame(() => {
@@ -266,20 +552,34 @@ export default function LoopEditor({
     }
   };
 
-  const handleResetHintsDev = () => {
-    setHintsLeft(hintBudget);
-    setTierUsed(0);
+  const handleResetHintsDev = async () => {
     setCoach(null);
     setCoachError(null);
 
-    if (typeof window !== 'undefined') {
-      window.localStorage.setItem(hintsKey(loopId), String(hintBudget));
-      window.localStorage.setItem(tierKey(loopId), '0');
+    try {
+      const res = await fetch(
+        `/api/hints?loopId=${encodeURIComponent(loopId)}`,
+        { method: 'DELETE' },
+      );
+      const payload = await res.json();
+      if (!res.ok) {
+        setCoachError(payload?.error ?? 'Could not reset hints');
+        return;
+      }
+      applyBalance(payload);
+    } catch (e: any) {
+      setCoachError(e?.message ?? 'Could not reset hints');
     }
   };
 
   return (
     <div className='mt-3'>
+      {reviewNote ? (
+        <div className='mb-3 rounded-lg border p-3 text-sm'>
+          {reviewNote.text}
+        </div>
+      ) : null}
+
       <div className='mb-2 flex flex-wrap items-center justify-between gap-2'>
         <div className='text-xs opacity-60'>
           {stats.lines} lines · {stats.chars} chars
@@ -288,11 +588,15 @@ export default function LoopEditor({
           {result ? (
             <>
               <span className='mx-2'>•</span>
-              <span className='opacity-80'>
-                {result.passed
-                  ? '✅ Passed'
-                  : `❌ Failed${tests.length ? ` (${failedCount})` : ''}`}
-              </span>
+              <span className='opacity-80'>{resultLabel}</span>
+              {result.cached ? (
+                <span
+                  className='ml-2 rounded-full border px-1.5 py-0.5 opacity-70'
+                  title='Identical to an earlier run, so its result was reused'
+                >
+                  cached
+                </span>
+              ) : null}
             </>
           ) : null}
         </div>
@@ -301,9 +605,15 @@ export default function LoopEditor({
           <button
             type='button'
             className='rounded-lg border px-3 py-1.5 text-sm opacity-80 hover:opacity-100 disabled:opacity-60'
-            onClick={() => setCode(initialCode)}
-            disabled={running}
-            title='Reset to starter'
+            onClick={() =>
+              setCode(
+                glitch && active.path === mainPath
+                  ? glitch.code
+                  : starters[active.path],
+              )
+            }
+            disabled={running || active.readOnly}
+            title={glitch ? 'Reset to glitched code' : 'Reset to starter'}
           >
             Reset
           </button>
@@ -312,22 +622,69 @@ export default function LoopEditor({
             type='button'
             className='rounded-lg border bg-black px-3 py-1.5 text-sm text-white disabled:opacity-60'
             onClick={handleRunTests}
-            disabled={running}
+            disabled={running || preview}
+            title={preview ? 'Save the loop to run its tests' : undefined}
           >
             {running ? 'Running…' : 'Run tests'}
           </button>
         </div>
       </div>
 
+      {glitches.length ? (
+        <div className='mb-3 rounded-lg border p-3 text-sm'>
+          <div className='flex flex-wrap items-center justify-between gap-2'>
+            <div className='font-medium'>
+              {glitch ? `Glitch round: ${glitch.label}` : 'Glitch mode'}
+            </div>
+
+            {glitch ? (
+              <button
+                type='button'
+                className='rounded-lg border px-3 py-1.5 text-sm opacity-80 hover:opacity-100 disabled:opacity-60'
+                onClick={handleExitGlitch}
+                disabled={running}
+              >
+                Back to starter
+              </button>
+            ) : (
+              <div className='flex items-center gap-2'>
+                <select
+                  value={glitchPick}
+                  onChange={(e) => setGlitchPick(e.target.value)}
+                  className='rounded-lg border bg-transparent px-2 py-1.5 font-mono text-xs'
+                >
+                  {glitches.map((g) => (
+                    <option key={g} value={g}>
+                      {g}
+                    </option>
+                  ))}
+                </select>
+                <button
+                  type='button'
+                  className='rounded-lg border px-3 py-1.5 text-sm opacity-80 hover:opacity-100 disabled:opacity-60'
+                  onClick={handleStartGlitch}
+                  disabled={running || glitchLoading || !glitchPick || preview}
+                >
+                  {glitchLoading ? 'Loading…' : 'Start glitch round'}
+                </button>
+              </div>
+            )}
+          </div>
+          <div className='mt-1 opacity-70'>
+            {glitch
+              ? 'This code looks right but has a bug. Find it, fix it, and run the tests.'
+              : 'Debug a broken solution instead of writing one from scratch.'}
+          </div>
+        </div>
+      ) : null}
+
       {missingExports.length ? (
         <div className='mb-3 rounded-lg border bg-black/5 p-3 text-sm'>
           <div className='font-medium'>Heads up</div>
           <div className='mt-1 opacity-80'>
             Keep the export signature:
             <span className='ml-2 font-mono'>
-              {missingExports
-                .map((n) => `export function ${n}(...)`)
-                .join(', ')}
+              {missingExports.map(LANGUAGES[language].exportHint).join(', ')}
             </span>
           </div>
         </div>
@@ -342,11 +699,35 @@ export default function LoopEditor({
         </div>
       ) : null}
 
-      <textarea
+      {loopFiles.length > 1 ? (
+        <div className='mb-2 flex flex-wrap gap-1'>
+          {loopFiles.map((f) => (
+            <button
+              key={f.path}
+              type='button'
+              onClick={() => setActivePath(f.path)}
+              className={`rounded-lg border px-3 py-1 font-mono text-xs ${f.path === active.path ? 'bg-black text-white' : 'opacity-70 hover:opacity-100'}`}
+              title={f.readOnly ? 'Read-only fixture' : undefined}
+            >
+              {f.path}
+              {f.readOnly ? (
+                <span className='ml-2 opacity-60'>read-only</span>
+              ) : null}
+              {markersByFile[f.path].length || missingByFile[f.path] ? (
+                <span className='ml-2 text-red-600'>●</span>
+              ) : null}
+            </button>
+          ))}
+        </div>
+      ) : null}
+
+      <CodeEditor
+        key={active.path}
         value={code}
-        onChange={(e) => setCode(e.target.value)}
-        spellCheck={false}
-        className='min-h-56 w-full resize-y rounded-lg border bg-black/5 p-3 font-mono text-sm leading-relaxed outline-none whitespace-pre'
+        onChange={setCode}
+        language={language}
+        markers={markers}
+        readOnly={active.readOnly}
       />
 
       {/* Coach Mode (opt-in) */}
@@ -430,6 +811,11 @@ export default function LoopEditor({
             <div className='mt-3 space-y-3'>
               <div className='text-xs uppercase tracking-wide opacity-60'>
                 Hint {coach.tier}/3
+                {coach.file ? (
+                  <span className='ml-2 font-mono normal-case'>
+                    · {coach.file}
+                  </span>
+                ) : null}
               </div>
 
               <div className='text-sm'>{coach.nudge}</div>
@@ -464,6 +850,39 @@ export default function LoopEditor({
         </div>
       ) : null}
 
+      {running && runPhase ? (
+        <div className='mt-4 rounded-xl border p-4'>
+          <div className='flex items-center justify-between'>
+            <div className='text-sm font-medium uppercase tracking-wide opacity-70'>
+              Test Results
+            </div>
+            <div className='text-sm opacity-70'>{runPhase}</div>
+          </div>
+
+          {liveTests.length ? (
+            <ul className='mt-3 space-y-2'>
+              {liveTests.map((t, idx) => (
+                <li
+                  key={`${t.name}-${idx}`}
+                  className='flex items-start justify-between gap-3 rounded-lg border p-3'
+                >
+                  <div className='font-mono text-sm'>{t.name}</div>
+                  <div className='text-xs opacity-70'>
+                    {t.state === 'pass'
+                      ? '✅'
+                      : t.state === 'fail'
+                        ? '❌'
+                        : t.state.toUpperCase()}
+                  </div>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <div className='mt-3 text-sm opacity-70'>Waiting for results…</div>
+          )}
+        </div>
+      ) : null}
+
       {result ? (
         <div className='mt-4 space-y-3'>
           <div className='rounded-xl border p-4'>
@@ -472,13 +891,17 @@ export default function LoopEditor({
                 Test Results
               </div>
               <div className='text-sm opacity-70'>
-                {result.passed ? '✅ Passed' : '❌ Failed'}
+                {result.passed
+                  ? '✅ Passed'
+                  : tooSlow
+                    ? '🐢 Too slow'
+                    : '❌ Failed'}
               </div>
             </div>
 
-            {tests.length ? (
+            {publicTests.length ? (
               <ul className='mt-3 space-y-2'>
-                {tests.map((t, idx) => (
+                {publicTests.map((t, idx) => (
                   <li
                     key={`${t.name}-${idx}`}
                     className='rounded-lg border p-3'
@@ -502,13 +925,50 @@ export default function LoopEditor({
                   </li>
                 ))}
               </ul>
-            ) : (
+            ) : hidden.total ? null : (
               <div className='mt-3 text-sm opacity-70'>
                 No structured test list returned. (Stdout/Stderr below.)
               </div>
             )}
+
+            {hidden.total ? (
+              <div className='mt-3 rounded-lg border border-dashed p-3'>
+                <div className='flex items-start justify-between gap-3'>
+                  <div className='text-sm'>
+                    {hidden.failed
+                      ? `${hidden.failed} hidden check${hidden.failed === 1 ? '' : 's'} failed`
+                      : 'All hidden checks passed'}
+                  </div>
+                  <div className='text-xs opacity-70'>
+                    {hidden.total - hidden.failed}/{hidden.total} passed
+                  </div>
+                </div>
+
+                {hidden.categories.length ? (
+                  <div className='mt-2 flex flex-wrap gap-2'>
+                    {hidden.categories.map((c) => (
+                      <span
+                        key={c}
+                        className='rounded-full border px-2 py-0.5 text-xs opacity-80'
+                      >
+                        {c}
+                      </span>
+                    ))}
+                  </div>
+                ) : null}
+
+                <div className='mt-2 text-xs opacity-60'>
+                  Hidden checks are graded but not shown. Re-read the spec for
+                  cases the visible tests don’t cover.
+                </div>
+              </div>
+            ) : null}
           </div>
 
+          {result.performance ? (
+            <PerformancePanel performance={result.performance} />
+          ) : null}
+
           <div className='grid gap-3 sm:grid-cols-2'>
             <div className='rounded-xl border p-4'>
               <div className='text-sm font-medium uppercase tracking-wide opacity-70'>
@@ -530,6 +990,16 @@ export default function LoopEditor({
           </div>
         </div>
       ) : null}
+
+      {review ? null : (
+        <SubmissionHistory
+          key={submissions[0]?.id ?? 'none'}
+          submissions={submissions}
+          mainPath={mainPath}
+          onRestore={handleRestore}
+          disabled={running}
+        />
+      )}
     </div>
   );
 }
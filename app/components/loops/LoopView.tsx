@@ -0,0 +1,170 @@
+import LoopEditor from '@/app/components/loops/LoopEditor';
+import {
+  ExampleBadge,
+  RunResultsProvider,
+} from '@/app/components/loops/RunResults';
+import NextLoopLink from '@/app/components/tracks/NextLoopLink';
+import { LANGUAGES, loopLanguage } from '@/lib/loops/languages';
+import {
+  exampleArgs,
+  exampleTarget,
+  loopExports,
+  loopFiles,
+  type LoopExample,
+  type LoopManifest,
+} from '@/lib/loops/schema';
+
+type Props = {
+  loop: LoopManifest;
+  preview?: boolean; // authoring studio: the editor can't run anything
+  review?: boolean; // started from the review queue
+};
+
+function CodeBlock({ children }: { children: string }) {
+  return (
+    <pre className='mt-3 overflow-x-auto rounded-lg border bg-black/5 p-3 font-mono text-sm leading-relaxed'>
+      <code className='whitespace-pre'>{children}</code>
+    </pre>
+  );
+}
+
+// `cartTotal([...])`, arguments pretty-printed
+function callText(loop: LoopManifest, ex: LoopExample) {
+  const args = exampleArgs(ex).map((a) => JSON.stringify(a, null, 2));
+  return `${exampleTarget(loop, ex).call}(${args.join(', ')})`;
+}
+
+// The loop page: spec, docs, examples, the editor and, after a pass, the
+// next loop of its tracks. Shared with the authoring studio's preview so
+// drafts render exactly like saved loops.
+export default function LoopView({
+  loop,
+  preview = false,
+  review = false,
+}: Props) {
+  return (
+    <RunResultsProvider>
+      <div className='mx-auto max-w-3xl px-4 py-10'>
+        <header className='mb-6'>
+          <div className='flex items-baseline justify-between gap-4'>
+            <h1 className='text-2xl font-semibold'>{loop.title}</h1>
+            <div className='text-sm opacity-70'>
+              Difficulty {loop.difficulty} · {loop.hintBudget} hints
+            </div>
+          </div>
+          <div className='mt-1 flex flex-wrap items-center gap-2 text-xs opacity-60'>
+            <span>Loop: {loop.id}</span>
+            <span>•</span>
+            <span>{LANGUAGES[loopLanguage(loop)].label}</span>
+            {loopExports(loop).length ? (
+              <>
+                <span>•</span>
+                <span>Exports: {loopExports(loop).join(', ')}</span>
+              </>
+            ) : null}
+            {loop.glitches?.length ? (
+              <>
+                <span>•</span>
+                <span>Glitches: {loop.glitches.join(', ')}</span>
+              </>
+            ) : null}
+          </div>
+        </header>
+
+        {/* Spec */}
+        <section className='rounded-xl border p-5'>
+          <h2 className='text-sm font-medium uppercase tracking-wide opacity-70'>
+            Spec
+          </h2>
+          <ul className='mt-3 list-disc space-y-2 pl-5'>
+            {loop.spec.map((line) => (
+              <li key={line} className='leading-relaxed'>
+                {line}
+              </li>
+            ))}
+          </ul>
+
+          {/* Docs */}
+          {loop.docs?.length ? (
+            <div className='mt-5'>
+              <div className='text-sm font-medium uppercase tracking-wide opacity-70'>
+                Docs
+              </div>
+              <div className='mt-2 flex flex-wrap gap-2'>
+                {loop.docs.map((d) => (
+                  <a
+                    key={d.url}
+                    href={d.url}
+                    target='_blank'
+                    rel='noreferrer'
+                    className='rounded-full border px-3 py-1 text-sm opacity-80 hover:opacity-100'
+                  >
+                    {d.label}
+                  </a>
+                ))}
+              </div>
+            </div>
+          ) : null}
+
+          {/* Examples */}
+          {loop.examples?.length ? (
+            <div className='mt-6'>
+              <div className='text-sm font-medium uppercase tracking-wide opacity-70'>
+                Examples
+              </div>
+
+              <div className='mt-3 space-y-4'>
+                {loop.examples.map((ex, idx) => (
+                  <div
+                    key={idx}
+                    className='grid gap-4 rounded-lg border p-4 md:grid-cols-2'
+                  >
+                    <div>
+                      <div className='text-xs font-medium opacity-70'>Call</div>
+                      <CodeBlock>{callText(loop, ex)}</CodeBlock>
+                    </div>
+                    <div>
+                      <div className='flex items-center justify-between gap-2'>
+                        <div className='text-xs font-medium opacity-70'>
+                          Output
+                        </div>
+                        <ExampleBadge index={idx} />
+                      </div>
+                      <CodeBlock>
+                        {JSON.stringify(ex.output, null, 2)}
+                      </CodeBlock>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          ) : null}
+        </section>
+
+        {/* Starter */}
+        <section className='mt-6 rounded-xl border p-5'>
+          <div className='flex items-center justify-between gap-4'>
+            <h2 className='text-sm font-medium uppercase tracking-wide opacity-70'>
+              Starter
+            </h2>
+            <div className='text-xs opacity-60'>
+              Keep the export name the same.
+            </div>
+          </div>
+
+          <LoopEditor
+            loopId={loop.id}
+            files={loopFiles(loop)}
+            language={loopLanguage(loop)}
+            hintBudget={loop.hintBudget}
+            glitches={loop.glitches}
+            preview={preview}
+            review={review}
+          />
+        </section>
+
+        {preview ? null : <NextLoopLink loopId={loop.id} />}
+      </div>
+    </RunResultsProvider>
+  );
+}
@@ -0,0 +1,81 @@
+'use client';
+
+import { COMPLEXITY, type PerfCheck, type PerfResult } from '@/lib/perf/types';
+
+type Props = {
+  performance: PerfResult;
+};
+
+function formatMs(ms: number) {
+  if (ms >= 100) return `${Math.round(ms)} ms`;
+  if (ms >= 1) return `${ms.toFixed(1)} ms`;
+  return `${ms.toFixed(3)} ms`;
+}
+
+const formatN = (n: number) => n.toLocaleString('en-US');
+
+function checkText(c: PerfCheck) {
+  if (c.kind === 'time') {
+    return `Time at n=${formatN(c.n)}: ${formatMs(c.measuredMs)} (budget ${formatMs(c.limitMs)})`;
+  }
+  const expected = `expected ${COMPLEXITY[c.expected].label} or better`;
+  if (c.estimated == null) return `Growth: too fast to measure, ${expected}`;
+  return `Growth: looks like ${COMPLEXITY[c.estimated].label} (slope ${c.exponent}), ${expected}`;
+}
+
+// Performance budget results: separate from the tests, with the measured
+// time per input size.
+export default function PerformancePanel({ performance }: Props) {
+  return (
+    <div className='rounded-xl border p-4'>
+      <div className='flex items-center justify-between'>
+        <div className='text-sm font-medium uppercase tracking-wide opacity-70'>
+          Performance
+        </div>
+        <div className='text-sm opacity-70'>
+          {performance.passed ? '✅ Within budget' : '🐢 Too slow'}
+        </div>
+      </div>
+
+      {performance.error ? (
+        <pre className='mt-3 overflow-x-auto whitespace-pre-wrap text-xs opacity-80'>
+          {performance.error}
+        </pre>
+      ) : null}
+
+      {performance.checks.length ? (
+        <ul className='mt-3 space-y-2'>
+          {performance.checks.map((c) => (
+            <li
+              key={c.kind}
+              className='flex items-start justify-between gap-3 rounded-lg border p-3 text-sm'
+            >
+              <span>{checkText(c)}</span>
+              <span className='text-xs'>{c.passed ? '✅' : '❌'}</span>
+            </li>
+          ))}
+        </ul>
+      ) : null}
+
+      {performance.samples.length ? (
+        <div className='mt-3 flex flex-wrap gap-2'>
+          {performance.samples.map((s) => (
+            <span
+              key={s.n}
+              className='rounded-full border px-2 py-0.5 font-mono text-xs opacity-80'
+            >
+              n={formatN(s.n)}: {formatMs(s.ms)}
+            </span>
+          ))}
+        </div>
+      ) : null}
+
+      {performance.stoppedAt != null ? (
+        <div className='mt-2 text-xs opacity-60'>
+          Stopped before n={formatN(performance.stoppedAt)}: a smaller input was
+          already over budget.
+        </div>
+      ) : null}
+    </div>
+  );
+}
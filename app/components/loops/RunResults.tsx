@@ -0,0 +1,53 @@
+'use client';
+
+import { createContext, useContext, useMemo, useState } from 'react';
+import type { UiTest } from '@/lib/runner/types';
+
+// The latest run's outcome, shared between the editor (which runs it) and
+// the rest of the loop page (the example badges, the next-loop link).
+export type SharedRun = {
+  passed: boolean;
+  mode: 'normal' | 'glitch';
+  tests: UiTest[];
+};
+
+type RunResults = {
+  run: SharedRun | null; // null before the first run and while running
+  setRun: (run: SharedRun | null) => void;
+};
+
+const RunResultsContext = createContext<RunResults | null>(null);
+
+export function RunResultsProvider({
+  children,
+}: {
+  children: React.ReactNode;
+}) {
+  const [run, setRun] = useState<SharedRun | null>(null);
+  const value = useMemo(() => ({ run, setRun }), [run]);
+  return (
+    <RunResultsContext.Provider value={value}>
+      {children}
+    </RunResultsContext.Provider>
+  );
+}
+
+// Null outside a provider: the editor works on its own too.
+export function useRunResults() {
+  return useContext(RunResultsContext);
+}
+
+// Pass / fail of one example after a run (nothing before).
+export function ExampleBadge({ index }: { index: number }) {
+  const test = useRunResults()?.run?.tests.find((t) => t.example === index);
+  if (!test || (test.state !== 'pass' && test.state !== 'fail')) return null;
+
+  return (
+    <span
+      className={`rounded-full border px-2 py-0.5 text-xs ${test.state === 'pass' ? 'text-green-700' : 'text-red-600'}`}
+      title={test.state === 'fail' ? test.error : undefined}
+    >
+      {test.state === 'pass' ? '✅ Passes' : '❌ Fails'}
+    </span>
+  );
+}
@@ -0,0 +1,222 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { diffLines } from '@/lib/diff/lines';
+import {
+  compareTestOutcomes,
+  submissionFiles,
+  type Submission,
+  type TestChange,
+} from '@/lib/submissions/types';
+
+type Props = {
+  submissions: Submission[]; // newest first
+  mainPath: string; // file that single-file snapshots belong to
+  onRestore: (submission: Submission) => void;
+  disabled?: boolean;
+};
+
+function formatTime(iso: string) {
+  return new Date(iso).toLocaleString(undefined, {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  });
+}
+
+function passCount(s: Submission) {
+  return s.tests.filter((t) => t.state === 'pass').length;
+}
+
+function changeLabel(c: TestChange) {
+  if (c.before == null) return 'new';
+  if (c.after == null) return 'gone';
+  if (c.before !== 'pass' && c.after === 'pass') return 'fixed';
+  if (c.before === 'pass' && c.after !== 'pass') return 'broke';
+  return null;
+}
+
+const STATE_ICON: Record<string, string> = { pass: '✅', fail: '❌' };
+
+function stateIcon(state: string | null) {
+  if (state == null) return '—';
+  return STATE_ICON[state] ?? state.toUpperCase();
+}
+
+// Past runs of this loop: restore a snapshot, or diff two runs (code + tests).
+// Defaults to the latest run against the one before it.
+export default function SubmissionHistory({
+  submissions,
+  mainPath,
+  onRestore,
+  disabled,
+}: Props) {
+  const [baseId, setBaseId] = useState<string | null>(null);
+  const [compareId, setCompareId] = useState<string | null>(null);
+
+  const byId = (id: string | null) => submissions.find((s) => s.id === id);
+  const compare = byId(compareId) ?? submissions[0];
+  const base = byId(baseId) ?? submissions[1];
+
+  // One line diff per file that changed between the two runs
+  const fileDiffs = useMemo(() => {
+    if (!base || !compare) return [];
+    const before = submissionFiles(base, mainPath);
+    const after = submissionFiles(compare, mainPath);
+    const paths = Array.from(
+      new Set([...Object.keys(before), ...Object.keys(after)]),
+    );
+    return paths
+      .map((path) => ({
+        path,
+        lines: diffLines(before[path] ?? '', after[path] ?? ''),
+      }))
+      .filter((d) => d.lines.some((l) => l.type !== 'same'));
+  }, [base, compare, mainPath]);
+
+  const testChanges = useMemo(
+    () =>
+      base && compare ? compareTestOutcomes(base.tests, compare.tests) : [],
+    [base, compare],
+  );
+
+  const changed = testChanges.filter((c) => changeLabel(c));
+  const multiFile = fileDiffs.length > 1 || !!compare?.files;
+
+  if (!submissions.length) return null;
+
+  return (
+    <div className='mt-4 rounded-xl border p-4'>
+      <div className='flex items-center justify-between'>
+        <div className='text-sm font-medium uppercase tracking-wide opacity-70'>
+          History
+        </div>
+        <div className='text-xs opacity-60'>
+          {submissions.length} run{submissions.length === 1 ? '' : 's'}
+        </div>
+      </div>
+
+      <ul className='mt-3 max-h-56 space-y-1 overflow-auto text-sm'>
+        {submissions.map((s) => (
+          <li
+            key={s.id}
+            className='flex flex-wrap items-center justify-between gap-2 rounded-lg border px-3 py-1.5'
+          >
+            <div className='flex items-center gap-2'>
+              <span>{s.passed ? '✅' : '❌'}</span>
+              <span className='font-mono text-xs'>{formatTime(s.at)}</span>
+              <span className='text-xs opacity-60'>
+                {passCount(s)}/{s.tests.length} passed
+              </span>
+              {s.mode === 'glitch' ? (
+                <span className='rounded-full border px-2 py-0.5 text-xs opacity-70'>
+                  glitch
+                </span>
+              ) : null}
+            </div>
+
+            <div className='flex items-center gap-1 text-xs'>
+              <button
+                type='button'
+                onClick={() => setBaseId(s.id)}
+                className={`rounded border px-2 py-0.5 ${s.id === base?.id ? 'bg-black text-white' : 'opacity-70 hover:opacity-100'}`}
+                title='Compare from this run'
+              >
+                A
+              </button>
+              <button
+                type='button'
+                onClick={() => setCompareId(s.id)}
+                className={`rounded border px-2 py-0.5 ${s.id === compare?.id ? 'bg-black text-white' : 'opacity-70 hover:opacity-100'}`}
+                title='Compare to this run'
+              >
+                B
+              </button>
+              <button
+                type='button'
+                onClick={() => onRestore(s)}
+                disabled={disabled}
+                className='rounded border px-2 py-0.5 opacity-70 hover:opacity-100 disabled:opacity-40'
+                title='Load this code into the editor'
+              >
+                Restore
+              </button>
+            </div>
+          </li>
+        ))}
+      </ul>
+
+      {base && compare && base.id !== compare.id ? (
+        <div className='mt-4 space-y-3'>
+          <div className='text-xs opacity-60'>
+            A: <span className='font-mono'>{formatTime(base.at)}</span>
+            <span className='mx-2'>→</span>
+            B: <span className='font-mono'>{formatTime(compare.at)}</span>
+          </div>
+
+          {changed.length ? (
+            <ul className='space-y-1 text-sm'>
+              {changed.map((c) => (
+                <li
+                  key={c.name}
+                  className='flex items-start justify-between gap-3 rounded-lg border px-3 py-1.5'
+                >
+                  <span className='font-mono text-xs'>{c.name}</span>
+                  <span className='shrink-0 text-xs'>
+                    {stateIcon(c.before)} → {stateIcon(c.after)}
+                    <span className='ml-2 opacity-70'>{changeLabel(c)}</span>
+                  </span>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <div className='text-sm opacity-70'>No test changed outcome.</div>
+          )}
+          {changed.length < testChanges.length ? (
+            <div className='text-xs opacity-60'>
+              {testChanges.length - changed.length} test
+              {testChanges.length - changed.length === 1 ? '' : 's'} unchanged
+            </div>
+          ) : null}
+
+          {!fileDiffs.length ? (
+            <div className='text-sm opacity-70'>Same code in both runs.</div>
+          ) : (
+            fileDiffs.map((d) => (
+              <div key={d.path}>
+                {multiFile ? (
+                  <div className='mb-1 font-mono text-xs opacity-70'>
+                    {d.path}
+                  </div>
+                ) : null}
+                <pre className='max-h-80 overflow-auto rounded-lg border bg-black/5 py-2 font-mono text-xs leading-relaxed'>
+                  {d.lines.map((l, i) => (
+                    <div
+                      key={i}
+                      className={
+                        l.type === 'add'
+                          ? 'bg-green-500/15 px-3'
+                          : l.type === 'del'
+                            ? 'bg-red-500/15 px-3'
+                            : 'px-3 opacity-70'
+                      }
+                    >
+                      {l.type === 'add' ? '+ ' : l.type === 'del' ? '- ' : '  '}
+                      {l.text}
+                    </div>
+                  ))}
+                </pre>
+              </div>
+            ))
+          )}
+        </div>
+      ) : submissions.length > 1 ? (
+        <div className='mt-3 text-xs opacity-60'>
+          Pick two different runs (A and B) to compare them.
+        </div>
+      ) : null}
+    </div>
+  );
+}
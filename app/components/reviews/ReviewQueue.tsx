@@ -0,0 +1,113 @@
+'use client';
+
+import Link from 'next/link';
+import { useEffect, useState } from 'react';
+import type { ReviewEntry } from '@/lib/review/sm2';
+
+type Queue = { today: string; due: ReviewEntry[]; upcoming: ReviewEntry[] };
+
+function daysBetween(from: string, to: string) {
+  return Math.round(
+    (Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) /
+      86_400_000,
+  );
+}
+
+// Reviews are per learner (cookie), so the queue is fetched after hydration
+export default function ReviewQueue() {
+  const [queue, setQueue] = useState<Queue | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    fetch('/api/reviews')
+      .then((res) => (res.ok ? res.json() : Promise.reject(res.statusText)))
+      .then((payload: Queue) => {
+        if (!cancelled) setQueue(payload);
+      })
+      .catch(() => {
+        if (!cancelled) setError('Could not load your reviews');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  if (error) {
+    return <div className='rounded-xl border p-4 text-sm'>{error}</div>;
+  }
+  if (!queue) {
+    return <div className='text-sm opacity-60'>Loading…</div>;
+  }
+
+  return (
+    <div className='space-y-8'>
+      <section>
+        <h2 className='mb-3 text-sm font-medium uppercase tracking-wide opacity-70'>
+          Due today
+        </h2>
+        {queue.due.length ? (
+          <ul className='space-y-3'>
+            {queue.due.map((card) => {
+              const late = daysBetween(card.due, queue.today);
+              return (
+                <li key={card.loopId}>
+                  <Link
+                    href={`/loops/${card.loopId}?review=1`}
+                    className='flex items-center justify-between gap-4 rounded-xl border p-4 hover:bg-black/5'
+                  >
+                    <div>
+                      <div className='font-medium'>{card.title}</div>
+                      <div className='mt-1 text-xs opacity-60'>
+                        {late > 0
+                          ? `Overdue by ${late} ${late === 1 ? 'day' : 'days'}`
+                          : 'Due today'}
+                        {card.session ? ' · review in progress' : ''}
+                      </div>
+                    </div>
+                    <span className='text-sm'>Start review →</span>
+                  </Link>
+                </li>
+              );
+            })}
+          </ul>
+        ) : (
+          <div className='rounded-xl border p-4 text-sm opacity-70'>
+            Nothing to review today.
+          </div>
+        )}
+      </section>
+
+      {queue.upcoming.length ? (
+        <section>
+          <h2 className='mb-3 text-sm font-medium uppercase tracking-wide opacity-70'>
+            Coming up
+          </h2>
+          <ul className='space-y-2'>
+            {queue.upcoming.map((card) => {
+              const days = daysBetween(queue.today, card.due);
+              return (
+                <li
+                  key={card.loopId}
+                  className='flex items-center justify-between gap-4 rounded-lg border p-3 text-sm'
+                >
+                  <Link
+                    href={`/loops/${card.loopId}`}
+                    className='hover:underline'
+                  >
+                    {card.title}
+                  </Link>
+                  <span className='text-xs opacity-60'>
+                    in {days} {days === 1 ? 'day' : 'days'} · {card.due}
+                  </span>
+                </li>
+              );
+            })}
+          </ul>
+        </section>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,587 @@
+'use client';
+
+import Link from 'next/link';
+import { useMemo, useState } from 'react';
+import CodeEditor from '@/app/components/loops/CodeEditor';
+import LoopView from '@/app/components/loops/LoopView';
+import type { LoopCheck, LoopSource } from '@/lib/loops/authoring';
+import {
+  isLoopLanguage,
+  LANGUAGES,
+  LOOP_LANGUAGES,
+  loopLanguage,
+} from '@/lib/loops/languages';
+import {
+  loopFiles,
+  loopManifestIssues,
+  loopReferenceFiles,
+  loopTestFiles,
+  type LoopDoc,
+  type LoopManifest,
+} from '@/lib/loops/schema';
+
+type Props = {
+  loopId: string;
+  initial: LoopSource;
+  isNew: boolean;
+  glitches: Array<{ id: string; label: string }>; // every known glitch
+};
+
+// One code buffer of the draft, shown as a tab
+type CodeTab =
+  | { kind: 'starter'; path: string; readOnly: boolean }
+  | { kind: 'reference'; path: string }
+  | { kind: 'test'; file: string; visibility: 'public' | 'hidden' };
+
+function tabKey(t: CodeTab) {
+  return t.kind === 'test' ? `test:${t.file}` : `${t.kind}:${t.path}`;
+}
+
+function tabLabel(t: CodeTab) {
+  if (t.kind === 'starter') return `Starter · ${t.path}`;
+  if (t.kind === 'reference') return `Reference · ${t.path}`;
+  return `${t.visibility === 'hidden' ? 'Hidden tests' : 'Tests'} · ${t.file}`;
+}
+
+// "label | url", one doc per line
+function docsToText(docs: LoopDoc[] = []) {
+  return docs.map((d) => `${d.label} | ${d.url}`).join('\n');
+}
+
+function textToDocs(text: string): LoopDoc[] {
+  return text
+    .split('\n')
+    .filter((line) => line.trim())
+    .map((line) => {
+      const at = line.lastIndexOf('|');
+      return at < 0
+        ? { label: line.trim(), url: '' }
+        : { label: line.slice(0, at).trim(), url: line.slice(at + 1).trim() };
+    });
+}
+
+const splitList = (text: string) =>
+  text
+    .split(',')
+    .map((s) => s.trim())
+    .filter(Boolean);
+
+// Drops empty optional fields so the saved loop.json stays tidy
+function tidy(loop: LoopManifest): LoopManifest {
+  const out = { ...loop };
+  if (!out.examples?.length) delete out.examples;
+  if (!out.docs?.length) delete out.docs;
+  if (!out.glitches?.length) delete out.glitches;
+  if (!out.tests?.hidden?.length && out.tests) {
+    out.tests = { public: out.tests.public };
+  }
+  return out;
+}
+
+const inputClass =
+  'w-full rounded-lg border bg-transparent px-2 py-1.5 text-sm';
+const labelClass = 'text-xs font-medium uppercase tracking-wide opacity-70';
+
+// Authoring studio: edit a loop's manifest, starter, reference solution and
+// tests, preview it as learners will see it, and check / save it through
+// /api/loops/:loopId.
+export default function LoopStudio({
+  loopId,
+  initial,
+  isNew,
+  glitches,
+}: Props) {
+  const [loop, setLoop] = useState<LoopManifest>(initial.loop);
+  const [tests, setTests] = useState(initial.tests);
+  const [reference, setReference] = useState(initial.reference);
+
+  // Free-text fields, parsed into the manifest as they change
+  const [specText, setSpecText] = useState(initial.loop.spec.join('\n'));
+  const [docsText, setDocsText] = useState(docsToText(initial.loop.docs));
+  const [examplesText, setExamplesText] = useState(
+    JSON.stringify(initial.loop.examples ?? [], null, 2),
+  );
+  const [examplesError, setExamplesError] = useState<string | null>(null);
+
+  const [view, setView] = useState<'edit' | 'preview'>('edit');
+  const [activeTab, setActiveTab] = useState<string>('');
+  const [newTestFile, setNewTestFile] = useState('');
+  const [newTestHidden, setNewTestHidden] = useState(false);
+
+  const [busy, setBusy] = useState<'check' | 'save' | null>(null);
+  const [check, setCheck] = useState<LoopCheck | null>(null);
+  const [checkKind, setCheckKind] = useState<'check' | 'save'>('check');
+  const [requestError, setRequestError] = useState<string | null>(null);
+  const [saved, setSaved] = useState(!isNew);
+
+  const draft = useMemo(() => tidy(loop), [loop]);
+  const manifestIssues = useMemo(() => loopManifestIssues(draft), [draft]);
+  const language = isLoopLanguage(loop.language) ? loopLanguage(loop) : null;
+
+  const update = (patch: Partial<LoopManifest>) => {
+    setLoop((prev) => ({ ...prev, ...patch }));
+    setCheck(null);
+  };
+
+  // Tabs only make sense for a manifest whose files can be listed
+  const tabs = useMemo<CodeTab[]>(() => {
+    if (manifestIssues.length) return [];
+    const { public: publicTests, hidden } = loopTestFiles(draft);
+    return [
+      ...loopFiles(draft).map((f): CodeTab => ({
+        kind: 'starter',
+        path: f.path,
+        readOnly: !!f.readOnly,
+      })),
+      ...Object.keys(loopReferenceFiles(draft)).map((path): CodeTab => ({
+        kind: 'reference',
+        path,
+      })),
+      ...publicTests.map((file): CodeTab => ({
+        kind: 'test',
+        file,
+        visibility: 'public',
+      })),
+      ...hidden.map((file): CodeTab => ({
+        kind: 'test',
+        file,
+        visibility: 'hidden',
+      })),
+    ];
+  }, [draft, manifestIssues]);
+
+  const active = tabs.find((t) => tabKey(t) === activeTab) ?? tabs[0];
+
+  const codeOf = (t: CodeTab) => {
+    if (t.kind === 'test') return tests[t.file] ?? '';
+    if (t.kind === 'reference') return reference[t.path] ?? '';
+    return loopFiles(draft).find((f) => f.path === t.path)?.starter ?? '';
+  };
+
+  const setCodeOf = (t: CodeTab, value: string) => {
+    setCheck(null);
+    if (t.kind === 'test') {
+      setTests((prev) => ({ ...prev, [t.file]: value }));
+    } else if (t.kind === 'reference') {
+      setReference((prev) => ({ ...prev, [t.path]: value }));
+    } else if (loop.files) {
+      update({
+        files: loop.files.map((f) =>
+          f.path === t.path ? { ...f, starter: value } : f,
+        ),
+      });
+    } else {
+      update({ starter: value });
+    }
+  };
+
+  const addTestFile = () => {
+    const file = newTestFile.trim();
+    if (!file || tests[file] != null) return;
+    const key = newTestHidden ? 'hidden' : 'public';
+    const current = loopTestFiles(draft);
+    update({
+      tests: { ...current, [key]: [...current[key], file] },
+    });
+    setTests((prev) => ({ ...prev, [file]: '' }));
+    setActiveTab(`test:${file}`);
+    setNewTestFile('');
+  };
+
+  const removeTestFile = (file: string) => {
+    const current = loopTestFiles(draft);
+    update({
+      tests: {
+        public: current.public.filter((f) => f !== file),
+        hidden: current.hidden.filter((f) => f !== file),
+      },
+    });
+    setTests((prev) => {
+      const next = { ...prev };
+      delete next[file];
+      return next;
+    });
+  };
+
+  const submit = async (kind: 'check' | 'save') => {
+    setBusy(kind);
+    setRequestError(null);
+    try {
+      const res = await fetch(
+        kind === 'check'
+          ? `/api/loops/${encodeURIComponent(loopId)}/check`
+          : `/api/loops/${encodeURIComponent(loopId)}`,
+        {
+          method: kind === 'check' ? 'POST' : 'PUT',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ loop: draft, tests, reference }),
+        },
+      );
+      const payload = await res.json();
+      if (!res.ok && !Array.isArray(payload?.issues)) {
+        throw new Error(payload?.error ?? `Request failed (${res.status})`);
+      }
+      setCheck(payload as LoopCheck);
+      setCheckKind(kind);
+      if (kind === 'save' && res.ok) setSaved(true);
+    } catch (e: unknown) {
+      setRequestError((e as Error).message ?? 'Request failed');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const blocked = !!busy || manifestIssues.length > 0 || !!examplesError;
+
+  return (
+    <div className='mx-auto max-w-5xl px-4 py-10'>
+      <header className='mb-6 flex flex-wrap items-center justify-between gap-3'>
+        <div>
+          <div className='text-xs opacity-60'>
+            <Link href='/studio' className='hover:underline'>
+              Studio
+            </Link>{' '}
+            / <span className='font-mono'>{loopId}</span>
+            {isNew && !saved ? ' (new)' : null}
+          </div>
+          <h1 className='text-2xl font-semibold'>{loop.title || loopId}</h1>
+        </div>
+
+        <div className='flex items-center gap-2'>
+          {saved ? (
+            <Link
+              href={`/loops/${loopId}`}
+              className='rounded-lg border px-3 py-1.5 text-sm opacity-80 hover:opacity-100'
+            >
+              Open loop
+            </Link>
+          ) : null}
+          <button
+            type='button'
+            className='rounded-lg border px-3 py-1.5 text-sm opacity-80 hover:opacity-100 disabled:opacity-60'
+            onClick={() => submit('check')}
+            disabled={blocked}
+            title='Validate and run the tests against the reference solution'
+          >
+            {busy === 'check' ? 'Checking…' : 'Check'}
+          </button>
+          <button
+            type='button'
+            className='rounded-lg border bg-black px-3 py-1.5 text-sm text-white disabled:opacity-60'
+            onClick={() => submit('save')}
+            disabled={blocked}
+            title='Check, then write the loop folder if everything passes'
+          >
+            {busy === 'save' ? 'Saving…' : 'Save'}
+          </button>
+        </div>
+      </header>
+
+      {requestError ? (
+        <div className='mb-4 rounded-lg border p-3 text-sm'>
+          <div className='font-medium'>Request failed</div>
+          <div className='mt-1 opacity-80'>{requestError}</div>
+        </div>
+      ) : null}
+
+      {check ? (
+        <div className='mb-4 rounded-xl border p-4 text-sm'>
+          <div className='font-medium'>
+            {check.ok
+              ? checkKind === 'save'
+                ? '✅ Saved'
+                : '✅ Ready to save'
+              : `❌ ${check.issues.length} issue(s)${checkKind === 'save' ? ', nothing saved' : ''}`}
+          </div>
+          {check.issues.length ? (
+            <ul className='mt-2 list-disc space-y-1 pl-5 opacity-80'>
+              {check.issues.map((issue) => (
+                <li key={issue}>{issue}</li>
+              ))}
+            </ul>
+          ) : null}
+          {check.reference ? (
+            <div className='mt-3'>
+              <div className={labelClass}>Reference solution</div>
+              <ul className='mt-2 space-y-1'>
+                {check.reference.tests.map((t, i) => (
+                  <li key={`${t.name}-${i}`} className='flex gap-2'>
+                    <span>{t.state === 'pass' ? '✅' : '❌'}</span>
+                    <span>
+                      {t.name}
+                      {t.visibility === 'hidden' ? (
+                        <span className='ml-2 text-xs opacity-60'>hidden</span>
+                      ) : null}
+                      {t.error ? (
+                        <pre className='mt-1 whitespace-pre-wrap text-xs opacity-70'>
+                          {t.error}
+                        </pre>
+                      ) : null}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+              {check.reference.stderr.trim() && !check.reference.passed ? (
+                <pre className='mt-2 overflow-x-auto whitespace-pre-wrap text-xs opacity-70'>
+                  {check.reference.stderr}
+                </pre>
+              ) : null}
+            </div>
+          ) : null}
+        </div>
+      ) : null}
+
+      <div className='mb-4 flex gap-1'>
+        {(['edit', 'preview'] as const).map((v) => (
+          <button
+            key={v}
+            type='button'
+            onClick={() => setView(v)}
+            className={`rounded-lg border px-3 py-1 text-sm ${v === view ? 'bg-black text-white' : 'opacity-70 hover:opacity-100'}`}
+          >
+            {v === 'edit' ? 'Edit' : 'Preview'}
+          </button>
+        ))}
+      </div>
+
+      {manifestIssues.length ? (
+        <div className='mb-4 rounded-lg border bg-black/5 p-3 text-sm'>
+          <div className='font-medium'>The manifest isn&apos;t valid yet</div>
+          <ul className='mt-1 list-disc pl-5 opacity-80'>
+            {manifestIssues.map((issue) => (
+              <li key={issue}>{issue}</li>
+            ))}
+          </ul>
+        </div>
+      ) : null}
+
+      {view === 'preview' ? (
+        manifestIssues.length ? null : (
+          <div className='rounded-xl border'>
+            <LoopView key={JSON.stringify(draft)} loop={draft} preview />
+          </div>
+        )
+      ) : (
+        <div className='space-y-5'>
+          <section className='grid gap-4 rounded-xl border p-5 md:grid-cols-4'>
+            <label className='md:col-span-2'>
+              <div className={labelClass}>Title</div>
+              <input
+                className={inputClass}
+                value={loop.title}
+                onChange={(e) => update({ title: e.target.value })}
+              />
+            </label>
+            <label>
+              <div className={labelClass}>Difficulty</div>
+              <input
+                type='number'
+                min={1}
+                className={inputClass}
+                value={loop.difficulty}
+                onChange={(e) => update({ difficulty: Number(e.target.value) })}
+              />
+            </label>
+            <label>
+              <div className={labelClass}>Hint budget</div>
+              <input
+                type='number'
+                min={0}
+                className={inputClass}
+                value={loop.hintBudget}
+                onChange={(e) => update({ hintBudget: Number(e.target.value) })}
+              />
+            </label>
+            <label>
+              <div className={labelClass}>Language</div>
+              <select
+                className={inputClass}
+                value={loop.language ?? 'typescript'}
+                onChange={(e) =>
+                  update({
+                    language:
+                      e.target.value === 'typescript'
+                        ? undefined
+                        : (e.target.value as LoopManifest['language']),
+                  })
+                }
+              >
+                {LOOP_LANGUAGES.map((l) => (
+                  <option key={l} value={l}>
+                    {LANGUAGES[l].label}
+                  </option>
+                ))}
+              </select>
+            </label>
+            {loop.files ? null : (
+              <label className='md:col-span-3'>
+                <div className={labelClass}>Exports (comma-separated)</div>
+                <input
+                  className={`${inputClass} font-mono`}
+                  value={(loop.exports ?? []).join(', ')}
+                  onChange={(e) =>
+                    update({ exports: splitList(e.target.value) })
+                  }
+                />
+              </label>
+            )}
+          </section>
+
+          <section className='grid gap-4 rounded-xl border p-5 md:grid-cols-2'>
+            <label>
+              <div className={labelClass}>Spec (one line per item)</div>
+              <textarea
+                rows={6}
+                className={inputClass}
+                value={specText}
+                onChange={(e) => {
+                  setSpecText(e.target.value);
+                  update({
+                    spec: e.target.value.split('\n').filter((l) => l.trim()),
+                  });
+                }}
+              />
+            </label>
+            <label>
+              <div className={labelClass}>Docs (label | url per line)</div>
+              <textarea
+                rows={6}
+                className={`${inputClass} font-mono`}
+                value={docsText}
+                onChange={(e) => {
+                  setDocsText(e.target.value);
+                  update({ docs: textToDocs(e.target.value) });
+                }}
+              />
+            </label>
+            <label>
+              <div className={labelClass}>Examples (JSON)</div>
+              <textarea
+                rows={8}
+                className={`${inputClass} font-mono`}
+                value={examplesText}
+                onChange={(e) => {
+                  setExamplesText(e.target.value);
+                  try {
+                    const parsed = JSON.parse(e.target.value);
+                    if (!Array.isArray(parsed)) {
+                      throw new Error('examples must be an array');
+                    }
+                    setExamplesError(null);
+                    update({ examples: parsed });
+                  } catch (err: unknown) {
+                    setExamplesError((err as Error).message);
+                  }
+                }}
+              />
+              {examplesError ? (
+                <div className='mt-1 text-xs text-red-600'>{examplesError}</div>
+              ) : null}
+            </label>
+            {loop.files ? null : (
+              <div>
+                <div className={labelClass}>Glitches</div>
+                <div className='mt-2 space-y-1 text-sm'>
+                  {glitches.map((g) => (
+                    <label key={g.id} className='flex items-center gap-2'>
+                      <input
+                        type='checkbox'
+                        checked={loop.glitches?.includes(g.id) ?? false}
+                        onChange={(e) =>
+                          update({
+                            glitches: e.target.checked
+                              ? [...(loop.glitches ?? []), g.id]
+                              : (loop.glitches ?? []).filter(
+                                  (id) => id !== g.id,
+                                ),
+                          })
+                        }
+                      />
+                      <span>{g.label}</span>
+                      <span className='font-mono text-xs opacity-60'>
+                        {g.id}
+                      </span>
+                    </label>
+                  ))}
+                </div>
+                <div className='mt-2 text-xs opacity-60'>
+                  Glitch rounds break the reference solution.
+                </div>
+              </div>
+            )}
+          </section>
+
+          {active && language ? (
+            <section className='rounded-xl border p-5'>
+              <div className='mb-2 flex flex-wrap gap-1'>
+                {tabs.map((t) => (
+                  <button
+                    key={tabKey(t)}
+                    type='button'
+                    onClick={() => setActiveTab(tabKey(t))}
+                    className={`rounded-lg border px-3 py-1 font-mono text-xs ${tabKey(t) === tabKey(active) ? 'bg-black text-white' : 'opacity-70 hover:opacity-100'}`}
+                  >
+                    {tabLabel(t)}
+                    {t.kind === 'starter' && t.readOnly ? (
+                      <span className='ml-2 opacity-60'>read-only</span>
+                    ) : null}
+                  </button>
+                ))}
+              </div>
+
+              <div className='mb-2 flex flex-wrap items-center justify-between gap-2 text-xs'>
+                <div className='opacity-60'>
+                  {active.kind === 'reference'
+                    ? 'Server-only: learners never see the reference solution.'
+                    : active.kind === 'test'
+                      ? `Imports the learner's code from ./${LANGUAGES[language].userFile.replace(/\.\w+$/, '')} (or the file's own path).`
+                      : 'What learners start from.'}
+                </div>
+                <div className='flex items-center gap-2'>
+                  {active.kind === 'test' ? (
+                    <button
+                      type='button'
+                      className='rounded-lg border px-2 py-1 opacity-80 hover:opacity-100'
+                      onClick={() => removeTestFile(active.file)}
+                    >
+                      Remove test file
+                    </button>
+                  ) : null}
+                  <input
+                    className='rounded-lg border bg-transparent px-2 py-1 font-mono'
+                    placeholder={LANGUAGES[language].testFilePattern}
+                    value={newTestFile}
+                    onChange={(e) => setNewTestFile(e.target.value)}
+                  />
+                  <label className='flex items-center gap-1'>
+                    <input
+                      type='checkbox'
+                      checked={newTestHidden}
+                      onChange={(e) => setNewTestHidden(e.target.checked)}
+                    />
+                    hidden
+                  </label>
+                  <button
+                    type='button'
+                    className='rounded-lg border px-2 py-1 opacity-80 hover:opacity-100 disabled:opacity-60'
+                    onClick={addTestFile}
+                    disabled={!newTestFile.trim()}
+                  >
+                    Add test file
+                  </button>
+                </div>
+              </div>
+
+              <CodeEditor
+                key={tabKey(active)}
+                value={codeOf(active)}
+                onChange={(value) => setCodeOf(active, value)}
+                language={language}
+              />
+            </section>
+          ) : null}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,57 @@
+'use client';
+
+import Link from 'next/link';
+import { useEffect, useState } from 'react';
+import { useRunResults } from '@/app/components/loops/RunResults';
+import type { TrackLoopStatus } from '@/lib/tracks/status';
+
+type TrackNext = {
+  track: { id: string; title: string };
+  loop: TrackLoopStatus;
+};
+
+// After a passing run: the next available loop in each track that has this
+// one. The pass is already in the learner's progress when the run returns.
+export default function NextLoopLink({ loopId }: { loopId: string }) {
+  const run = useRunResults()?.run;
+  const solved = !!run?.passed && run.mode === 'normal';
+  const [next, setNext] = useState<TrackNext[]>([]);
+
+  useEffect(() => {
+    if (!solved) return;
+    let cancelled = false;
+
+    fetch(`/api/tracks?loopId=${encodeURIComponent(loopId)}`)
+      .then((res) => (res.ok ? res.json() : null))
+      .then((payload: { next: TrackNext[] } | null) => {
+        if (!cancelled && payload) setNext(payload.next);
+      })
+      .catch(() => {
+        // no link; the learner can still go back to the track
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [loopId, solved]);
+
+  if (!solved || !next.length) return null;
+
+  return (
+    <div className='mt-6 space-y-2'>
+      {next.map(({ track, loop }) => (
+        <Link
+          key={track.id}
+          href={`/loops/${loop.id}`}
+          className='flex items-center justify-between gap-4 rounded-xl border p-4 text-sm hover:bg-black/5'
+        >
+          <span>
+            <span className='opacity-70'>Next in {track.title}: </span>
+            <span className='font-medium'>{loop.title}</span>
+          </span>
+          <span aria-hidden>→</span>
+        </Link>
+      ))}
+    </div>
+  );
+}
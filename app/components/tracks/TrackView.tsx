@@ -0,0 +1,92 @@
+'use client';
+
+import Link from 'next/link';
+import { useEffect, useState } from 'react';
+import type { TrackLoopState, TrackStatus } from '@/lib/tracks/status';
+
+const STATE_LABEL: Record<TrackLoopState, string> = {
+  completed: '✅ Completed',
+  available: '▶️ Available',
+  locked: '🔒 Locked',
+};
+
+// One track, in order. The server renders it without progress; the
+// learner's states (cookie) are fetched after hydration.
+export default function TrackView({ initial }: { initial: TrackStatus }) {
+  const [track, setTrack] = useState(initial);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    fetch(`/api/tracks/${encodeURIComponent(initial.id)}`)
+      .then((res) => (res.ok ? res.json() : null))
+      .then((payload: { track: TrackStatus } | null) => {
+        if (!cancelled && payload) setTrack(payload.track);
+      })
+      .catch(() => {
+        // states stay unknown; the links still work
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [initial.id]);
+
+  return (
+    <div>
+      <div className='mb-4 text-xs opacity-60'>
+        {track.completed} of {track.loops.length} completed
+      </div>
+
+      <ol className='space-y-3'>
+        {track.loops.map((loop, i) => {
+          const body = (
+            <>
+              <div className='flex items-baseline justify-between gap-4'>
+                <div className='font-medium'>
+                  <span className='mr-2 opacity-50'>{i + 1}.</span>
+                  {loop.title}
+                </div>
+                <div className='text-xs opacity-70'>
+                  {STATE_LABEL[loop.state]}
+                  {loop.id === track.next ? (
+                    <span className='ml-2 rounded-full border px-2 py-0.5'>
+                      Up next
+                    </span>
+                  ) : null}
+                </div>
+              </div>
+              <div className='mt-1 flex flex-wrap items-center gap-2 text-xs opacity-60'>
+                <span className='font-mono'>{loop.id}</span>
+                <span>•</span>
+                <span>Difficulty {loop.difficulty}</span>
+              </div>
+              {loop.locks.length ? (
+                <ul className='mt-2 space-y-1 text-xs opacity-70'>
+                  {loop.locks.map((lock) => (
+                    <li key={lock}>{lock}</li>
+                  ))}
+                </ul>
+              ) : null}
+            </>
+          );
+
+          return (
+            <li key={loop.id}>
+              {loop.state === 'locked' ? (
+                <div className='rounded-xl border p-4 opacity-70'>{body}</div>
+              ) : (
+                <Link
+                  href={`/loops/${loop.id}`}
+                  className='block rounded-xl border p-4 hover:bg-black/5'
+                >
+                  {body}
+                </Link>
+              )}
+            </li>
+          );
+        })}
+      </ol>
+    </div>
+  );
+}
@@ -0,0 +1,85 @@
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import LoopAnalyticsTable from '@/app/components/instructor/LoopAnalyticsTable';
+import { isDashboardEnabled, loopAnalytics } from '@/lib/analytics';
+
+export const dynamic = 'force-dynamic';
+
+const DAY = /^\d{4}-\d{2}-\d{2}$/;
+
+// Cohort analytics over every learner's runs and hints, per loop.
+export default async function InstructorPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ from?: string; to?: string }>;
+}) {
+  if (!isDashboardEnabled()) notFound();
+
+  const params = await searchParams;
+  const from = params.from && DAY.test(params.from) ? params.from : undefined;
+  const to = params.to && DAY.test(params.to) ? params.to : undefined;
+  const loops = await loopAnalytics({ from, to });
+
+  const csv = new URLSearchParams({ format: 'csv' });
+  if (from) csv.set('from', from);
+  if (to) csv.set('to', to);
+
+  return (
+    <div className='mx-auto max-w-5xl px-4 py-10'>
+      <header className='mb-6'>
+        <Link href='/' className='text-sm opacity-70 hover:underline'>
+          ← All loops
+        </Link>
+        <h1 className='mt-2 text-2xl font-semibold'>Instructor dashboard</h1>
+        <p className='mt-1 text-sm opacity-70'>
+          Runs and hints of every learner, per loop. Pick the dates of a cohort
+          to see only its activity.
+        </p>
+      </header>
+
+      <form
+        className='mb-6 flex flex-wrap items-end gap-3 text-sm'
+        action='/instructor'
+      >
+        <label className='flex flex-col gap-1'>
+          <span className='opacity-70'>From</span>
+          <input
+            type='date'
+            name='from'
+            defaultValue={from}
+            className='rounded-lg border bg-transparent px-2 py-1.5'
+          />
+        </label>
+        <label className='flex flex-col gap-1'>
+          <span className='opacity-70'>To</span>
+          <input
+            type='date'
+            name='to'
+            defaultValue={to}
+            className='rounded-lg border bg-transparent px-2 py-1.5'
+          />
+        </label>
+        <button
+          type='submit'
+          className='rounded-lg border bg-black px-3 py-1.5 text-white'
+        >
+          Apply
+        </button>
+        <a
+          href={`/api/analytics?${csv}`}
+          className='ml-auto rounded-lg border px-3 py-1.5 hover:bg-black/5'
+        >
+          Export CSV
+        </a>
+      </form>
+
+      {loops.length ? (
+        <LoopAnalyticsTable loops={loops} />
+      ) : (
+        <div className='rounded-xl border p-4 text-sm opacity-70'>
+          No runs or hints in this range yet.
+        </div>
+      )}
+    </div>
+  );
+}
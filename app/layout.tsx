@@ -13,8 +13,8 @@ const geistMono = Geist_Mono({
 });
 
 export const metadata: Metadata = {
-  title: "Create Next App",
-  description: "Generated by create next app",
+  title: "TryLoop",
+  description: "Small coding loops with tests and a hint coach",
 };
 
 export default function RootLayout({
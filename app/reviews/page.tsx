@@ -0,0 +1,21 @@
+import Link from 'next/link';
+import ReviewQueue from '@/app/components/reviews/ReviewQueue';
+
+export default function ReviewsPage() {
+  return (
+    <div className='mx-auto max-w-3xl px-4 py-10'>
+      <header className='mb-6'>
+        <Link href='/' className='text-sm opacity-70 hover:underline'>
+          ← All loops
+        </Link>
+        <h1 className='mt-2 text-2xl font-semibold'>Reviews</h1>
+        <p className='mt-1 text-sm opacity-70'>
+          Solved loops come back on a growing interval. A quick solve without
+          hints pushes the next review further out.
+        </p>
+      </header>
+
+      <ReviewQueue />
+    </div>
+  );
+}
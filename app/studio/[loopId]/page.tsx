@@ -0,0 +1,43 @@
+import { notFound } from 'next/navigation';
+import LoopStudio from '@/app/components/studio/LoopStudio';
+import { listGlitches } from '@/lib/glitches';
+import {
+  isStudioEnabled,
+  newLoopSource,
+  readLoopSource,
+  type LoopSource,
+} from '@/lib/loops/authoring';
+import { isValidLoopId, LoopNotFoundError } from '@/lib/loops/load';
+
+export const dynamic = 'force-dynamic';
+
+export default async function LoopStudioPage({
+  params,
+}: {
+  params: Promise<{ loopId: string }>;
+}) {
+  if (!isStudioEnabled()) notFound();
+
+  const { loopId } = await params;
+  if (!isValidLoopId(loopId)) notFound();
+
+  // Unknown ids start a new loop; broken manifests surface as errors
+  let source: LoopSource;
+  let isNew = false;
+  try {
+    source = await readLoopSource(loopId);
+  } catch (e) {
+    if (!(e instanceof LoopNotFoundError)) throw e;
+    source = newLoopSource(loopId);
+    isNew = true;
+  }
+
+  return (
+    <LoopStudio
+      loopId={loopId}
+      initial={source}
+      isNew={isNew}
+      glitches={listGlitches()}
+    />
+  );
+}
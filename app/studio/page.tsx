@@ -0,0 +1,61 @@
+import Link from 'next/link';
+import { notFound, redirect } from 'next/navigation';
+import { isStudioEnabled } from '@/lib/loops/authoring';
+import { listLoops } from '@/lib/loops/catalog';
+
+export const dynamic = 'force-dynamic';
+
+// Loop authoring: pick a loop to edit, or name a new one.
+export default async function StudioPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ loopId?: string }>;
+}) {
+  if (!isStudioEnabled()) notFound();
+
+  const { loopId } = await searchParams;
+  if (loopId?.trim()) redirect(`/studio/${encodeURIComponent(loopId.trim())}`);
+
+  const loops = await listLoops();
+
+  return (
+    <div className='mx-auto max-w-3xl px-4 py-10'>
+      <header className='mb-6'>
+        <h1 className='text-2xl font-semibold'>Loop studio</h1>
+        <p className='mt-1 text-sm opacity-70'>
+          Edit a loop, preview it, and check its tests against the reference
+          solution before saving.
+        </p>
+      </header>
+
+      <form className='mb-6 flex gap-2' action='/studio'>
+        <input
+          name='loopId'
+          placeholder='new-loop-id'
+          pattern='[A-Za-z0-9][\w-]*'
+          className='flex-1 rounded-lg border bg-transparent px-3 py-1.5 font-mono text-sm'
+        />
+        <button
+          type='submit'
+          className='rounded-lg border bg-black px-3 py-1.5 text-sm text-white'
+        >
+          New loop
+        </button>
+      </form>
+
+      <ul className='space-y-2'>
+        {loops.map((loop) => (
+          <li key={loop.id}>
+            <Link
+              href={`/studio/${loop.id}`}
+              className='flex items-center justify-between rounded-lg border p-3 text-sm hover:bg-black/5'
+            >
+              <span>{loop.title}</span>
+              <span className='font-mono text-xs opacity-60'>{loop.id}</span>
+            </Link>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
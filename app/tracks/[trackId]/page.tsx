@@ -0,0 +1,46 @@
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import TrackView from '@/app/components/tracks/TrackView';
+import {
+  loadTrack,
+  trackLoopInfos,
+  TrackNotFoundError,
+} from '@/lib/tracks/load';
+import type { TrackManifest } from '@/lib/tracks/schema';
+import { trackStatus } from '@/lib/tracks/status';
+
+export const dynamic = 'force-dynamic';
+
+export default async function TrackPage({
+  params,
+}: {
+  params: Promise<{ trackId: string }>;
+}) {
+  const { trackId } = await params;
+
+  let track: TrackManifest;
+  try {
+    track = await loadTrack(trackId);
+  } catch (e) {
+    // Invalid tracks surface as errors with the full issue list
+    if (e instanceof TrackNotFoundError) notFound();
+    throw e;
+  }
+  const initial = trackStatus(track, await trackLoopInfos(), {});
+
+  return (
+    <div className='mx-auto max-w-3xl px-4 py-10'>
+      <header className='mb-6'>
+        <Link href='/tracks' className='text-sm opacity-70 hover:underline'>
+          ← Tracks
+        </Link>
+        <h1 className='mt-2 text-2xl font-semibold'>{track.title}</h1>
+        {track.description ? (
+          <p className='mt-1 text-sm opacity-70'>{track.description}</p>
+        ) : null}
+      </header>
+
+      <TrackView initial={initial} />
+    </div>
+  );
+}
@@ -0,0 +1,49 @@
+import Link from 'next/link';
+import { listTracks } from '@/lib/tracks/load';
+
+export const dynamic = 'force-dynamic';
+
+export default async function TracksPage() {
+  const tracks = await listTracks();
+
+  return (
+    <div className='mx-auto max-w-3xl px-4 py-10'>
+      <header className='mb-6'>
+        <Link href='/' className='text-sm opacity-70 hover:underline'>
+          ← All loops
+        </Link>
+        <h1 className='mt-2 text-2xl font-semibold'>Tracks</h1>
+        <p className='mt-1 text-sm opacity-70'>
+          Loops in order: each one unlocks the next.
+        </p>
+      </header>
+
+      {tracks.length ? (
+        <ul className='space-y-3'>
+          {tracks.map((track) => (
+            <li key={track.id}>
+              <Link
+                href={`/tracks/${track.id}`}
+                className='block rounded-xl border p-4 hover:bg-black/5'
+              >
+                <div className='flex items-baseline justify-between gap-4'>
+                  <div className='font-medium'>{track.title}</div>
+                  <div className='text-xs opacity-60'>
+                    {track.loops.length} loops
+                  </div>
+                </div>
+                {track.description ? (
+                  <p className='mt-1 text-sm opacity-70'>{track.description}</p>
+                ) : null}
+              </Link>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <div className='rounded-xl border p-4 text-sm opacity-70'>
+          No tracks yet.
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { analyzeCode } from '@/lib/analysis';
+
+const offByOne = (code: string, boundaries = [18]) =>
+  analyzeCode(code, { boundaries })
+    .findings.filter((f) => f.detector === 'off-by-one-boundary')
+    .map((f) => f.snippet);
+
+describe('off-by-one-boundary', () => {
+  it("flags an exclusive comparison against the spec's boundary", () => {
+    expect(
+      offByOne(`export function filterAdults(users: { age: number }[]) {
+  return users.filter((u) => u.age > 18);
+}`),
+    ).toEqual(['u.age > 18']);
+    expect(offByOne('export const young = (age: number) => 18 > age;')).toEqual(
+      ['18 > age'],
+    );
+  });
+
+  it('leaves correct comparisons alone', () => {
+    expect(
+      offByOne(`export function filterAdults(users: { age: number }[]) {
+  return users.filter((u) => u.age > 17);
+}`),
+    ).toEqual([]);
+    expect(
+      offByOne('export const adult = (age: number) => age >= 18;'),
+    ).toEqual([]);
+    expect(
+      offByOne(`export function sum(arr: number[]) {
+  let total = 0;
+  for (let i = 0; i < arr.length; i++) total += arr[i];
+  return total;
+}`),
+    ).toEqual([]);
+  });
+
+  it('flags nothing against literals without boundaries', () => {
+    expect(offByOne('export const big = (n: number) => n > 18;', [])).toEqual(
+      [],
+    );
+  });
+
+  it('flags an index running up to `.length`', () => {
+    expect(
+      offByOne(
+        `export function sum(arr: number[]) {
+  let total = 0;
+  for (let i = 0; i <= arr.length; i++) total += arr[i];
+  return total;
+}`,
+        [],
+      ),
+    ).toEqual(['i <= arr.length']);
+  });
+});
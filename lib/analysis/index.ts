@@ -0,0 +1,332 @@
+import ts from 'typescript';
+import type { DetectorId, Finding } from '@/lib/analysis/types';
+
+// Static analysis of learner code with the TypeScript compiler API.
+// Detectors work on the syntax tree plus symbol resolution, so renamed
+// parameters, comments and strings don't fool them.
+
+const FILE_NAME = 'user-code.ts';
+
+// Array methods whose first callback parameter is an element of the array
+const ELEMENT_CALLBACKS = new Set([
+  'filter',
+  'map',
+  'some',
+  'every',
+  'find',
+  'findIndex',
+  'findLast',
+  'findLastIndex',
+  'forEach',
+  'flatMap',
+]);
+
+const MUTATORS = new Set([
+  'push',
+  'pop',
+  'shift',
+  'unshift',
+  'splice',
+  'sort',
+  'reverse',
+  'fill',
+  'copyWithin',
+]);
+
+const COMPARISONS = new Set([
+  ts.SyntaxKind.LessThanToken,
+  ts.SyntaxKind.LessThanEqualsToken,
+  ts.SyntaxKind.GreaterThanToken,
+  ts.SyntaxKind.GreaterThanEqualsToken,
+]);
+
+type Ctx = {
+  source: ts.SourceFile;
+  boundaries: number[];
+  checker: ts.TypeChecker;
+  exported: ts.FunctionLikeDeclaration[];
+  inputParams: Set<ts.ParameterDeclaration>;
+  findings: Finding[];
+};
+
+function createProgram(code: string) {
+  const source = ts.createSourceFile(
+    FILE_NAME,
+    code,
+    ts.ScriptTarget.ES2020,
+    true,
+  );
+
+  // One in-memory file, no lib and no imports: fast, and enough for symbols
+  const host: ts.CompilerHost = {
+    getSourceFile: (name) => (name === FILE_NAME ? source : undefined),
+    getDefaultLibFileName: () => 'lib.d.ts',
+    writeFile: () => {},
+    getCurrentDirectory: () => '/',
+    getCanonicalFileName: (f) => f,
+    useCaseSensitiveFileNames: () => true,
+    getNewLine: () => '\n',
+    fileExists: (f) => f === FILE_NAME,
+    readFile: () => undefined,
+  };
+
+  const program = ts.createProgram(
+    [FILE_NAME],
+    { noLib: true, noResolve: true, allowJs: true },
+    host,
+  );
+
+  return { source, checker: program.getTypeChecker() };
+}
+
+function report(
+  ctx: Ctx,
+  detector: DetectorId,
+  node: ts.Node,
+  message: string,
+) {
+  const { line } = ctx.source.getLineAndCharacterOfPosition(
+    node.getStart(ctx.source),
+  );
+  ctx.findings.push({
+    detector,
+    line: line + 1,
+    snippet: node.getText(ctx.source),
+    message,
+  });
+}
+
+function isNumberLiteral(node: ts.Expression) {
+  return (
+    ts.isNumericLiteral(node) ||
+    (ts.isPrefixUnaryExpression(node) &&
+      node.operator === ts.SyntaxKind.MinusToken &&
+      ts.isNumericLiteral(node.operand))
+  );
+}
+
+function literalValue(node: ts.Expression) {
+  if (ts.isNumericLiteral(node)) return Number(node.text);
+  if (ts.isPrefixUnaryExpression(node) && ts.isNumericLiteral(node.operand)) {
+    return -Number(node.operand.text);
+  }
+  return undefined;
+}
+
+function isLengthAccess(node: ts.Expression) {
+  return ts.isPropertyAccessExpression(node) && node.name.text === 'length';
+}
+
+// The parameter declaration an identifier refers to, if any
+function parameterOf(ctx: Ctx, node: ts.Node) {
+  if (!ts.isIdentifier(node)) return undefined;
+  const decl = ctx.checker.getSymbolAtLocation(node)?.valueDeclaration;
+  return decl && ts.isParameter(decl) ? decl : undefined;
+}
+
+// Exported functions (declarations or `export const f = () => ...`)
+function exportedFunctions(
+  source: ts.SourceFile,
+): ts.FunctionLikeDeclaration[] {
+  const out: ts.FunctionLikeDeclaration[] = [];
+  const isExported = (node: ts.Node) =>
+    ts.canHaveModifiers(node) &&
+    !!ts
+      .getModifiers(node)
+      ?.some((m) => m.kind === ts.SyntaxKind.ExportKeyword);
+
+  for (const stmt of source.statements) {
+    if (ts.isFunctionDeclaration(stmt) && isExported(stmt)) out.push(stmt);
+    if (ts.isVariableStatement(stmt) && isExported(stmt)) {
+      for (const d of stmt.declarationList.declarations) {
+        const init = d.initializer;
+        if (
+          init &&
+          (ts.isArrowFunction(init) || ts.isFunctionExpression(init))
+        ) {
+          out.push(init);
+        }
+      }
+    }
+  }
+  return out;
+}
+
+function isElementCallbackParam(param: ts.ParameterDeclaration) {
+  const fn = param.parent;
+  const call = fn.parent;
+  return (
+    (ts.isArrowFunction(fn) || ts.isFunctionExpression(fn)) &&
+    fn.parameters[0] === param &&
+    ts.isCallExpression(call) &&
+    ts.isPropertyAccessExpression(call.expression) &&
+    ELEMENT_CALLBACKS.has(call.expression.name.text)
+  );
+}
+
+function declaredAsNumber(param: ts.ParameterDeclaration) {
+  return param.type?.kind === ts.SyntaxKind.NumberKeyword;
+}
+
+function detectComparisons(ctx: Ctx, node: ts.BinaryExpression) {
+  const op = node.operatorToken.kind;
+  if (!COMPARISONS.has(op)) return;
+
+  const { left, right } = node;
+  const opText = node.operatorToken.getText(ctx.source);
+
+  // object-compared-to-number: `user > 18` where user is an array element
+  // (callback parameter) or one of the exported function's inputs
+  for (const [side, other] of [
+    [left, right],
+    [right, left],
+  ] as const) {
+    const param = parameterOf(ctx, side);
+    if (!param || !isNumberLiteral(other) || declaredAsNumber(param)) continue;
+
+    if (
+      isElementCallbackParam(param) ||
+      ctx.exported.includes(param.parent as ts.FunctionLikeDeclaration)
+    ) {
+      report(
+        ctx,
+        'object-compared-to-number',
+        node,
+        `\`${side.getText(ctx.source)}\` is a whole item, compared directly to a number.`,
+      );
+    }
+  }
+
+  // off-by-one-boundary: exclusive comparison against one of the spec's
+  // boundary values (`age > 18` when adults are `age >= 18`), or an
+  // inclusive one against `.length` (the classic loop overrun)
+  const atBoundary = [left, right].some((side) => {
+    const value = literalValue(side);
+    return value !== undefined && ctx.boundaries.includes(value);
+  });
+  const exclusive =
+    op === ts.SyntaxKind.LessThanToken || op === ts.SyntaxKind.GreaterThanToken;
+  if (atBoundary && exclusive) {
+    report(
+      ctx,
+      'off-by-one-boundary',
+      node,
+      `\`${opText}\` excludes the boundary value; check whether the spec includes it.`,
+    );
+  } else if (
+    (op === ts.SyntaxKind.LessThanEqualsToken && isLengthAccess(right)) ||
+    (op === ts.SyntaxKind.GreaterThanEqualsToken && isLengthAccess(left))
+  ) {
+    report(
+      ctx,
+      'off-by-one-boundary',
+      node,
+      'Comparing an index with `<= length` goes one past the last item.',
+    );
+  }
+}
+
+function detectMutation(ctx: Ctx, node: ts.Node) {
+  const isInput = (expr: ts.Expression) => {
+    const param = parameterOf(ctx, expr);
+    return !!param && ctx.inputParams.has(param);
+  };
+
+  // users.push(...), users.sort(), ...
+  if (
+    ts.isCallExpression(node) &&
+    ts.isPropertyAccessExpression(node.expression) &&
+    MUTATORS.has(node.expression.name.text) &&
+    isInput(node.expression.expression)
+  ) {
+    report(
+      ctx,
+      'mutates-argument',
+      node,
+      `\`.${node.expression.name.text}()\` changes the array that was passed in.`,
+    );
+  }
+
+  // users[0] = ..., users.length = 0
+  if (
+    ts.isBinaryExpression(node) &&
+    node.operatorToken.kind === ts.SyntaxKind.EqualsToken &&
+    (ts.isElementAccessExpression(node.left) ||
+      ts.isPropertyAccessExpression(node.left)) &&
+    isInput(node.left.expression)
+  ) {
+    report(
+      ctx,
+      'mutates-argument',
+      node,
+      'Assigning into the input changes the caller’s data.',
+    );
+  }
+}
+
+function detectNoReturnValue(ctx: Ctx) {
+  for (const fn of ctx.exported) {
+    const body = fn.body;
+    if (!body || !ts.isBlock(body)) continue; // expression-bodied arrows return
+
+    let returnsValue = false;
+    const visit = (node: ts.Node) => {
+      if (returnsValue || ts.isFunctionLike(node)) return; // skip nested functions
+      if (ts.isReturnStatement(node) && node.expression) returnsValue = true;
+      ts.forEachChild(node, visit);
+    };
+    ts.forEachChild(body, visit);
+
+    if (!returnsValue) {
+      const name = fn.name?.getText(ctx.source) ?? 'This function';
+      report(
+        ctx,
+        'no-return-value',
+        fn.name ?? fn,
+        `${name} never returns a value, so callers get undefined.`,
+      );
+    }
+  }
+}
+
+export type Analysis = {
+  findings: Finding[];
+  has: (detector: DetectorId) => boolean;
+};
+
+export type AnalyzeOptions = {
+  boundaries?: number[]; // the loop's boundary values (see LoopManifest)
+};
+
+export function analyzeCode(
+  code: string,
+  { boundaries = [] }: AnalyzeOptions = {},
+): Analysis {
+  const { source, checker } = createProgram(code);
+  // Exported functions don't change during the walk: collect them once
+  const exported = exportedFunctions(source);
+  const ctx: Ctx = {
+    source,
+    boundaries,
+    checker,
+    exported,
+    inputParams: new Set(exported.flatMap((fn) => fn.parameters)),
+    findings: [],
+  };
+
+  const visit = (node: ts.Node) => {
+    if (ts.isBinaryExpression(node)) detectComparisons(ctx, node);
+    detectMutation(ctx, node);
+    ts.forEachChild(node, visit);
+  };
+  visit(source);
+  detectNoReturnValue(ctx);
+
+  return {
+    findings: ctx.findings,
+    has: (detector) => ctx.findings.some((f) => f.detector === detector),
+  };
+}
+
+export { DETECTOR_IDS, isDetectorId } from '@/lib/analysis/types';
+export type { DetectorId, Finding } from '@/lib/analysis/types';
@@ -0,0 +1,21 @@
+// Kept free of the `typescript` import so schemas can reference detector ids.
+
+export const DETECTOR_IDS = [
+  'object-compared-to-number',
+  'no-return-value',
+  'mutates-argument',
+  'off-by-one-boundary',
+] as const;
+
+export type DetectorId = (typeof DETECTOR_IDS)[number];
+
+export type Finding = {
+  detector: DetectorId;
+  line: number; // 1-based, in the submitted code
+  snippet: string;
+  message: string;
+};
+
+export function isDetectorId(x: unknown): x is DetectorId {
+  return DETECTOR_IDS.includes(x as DetectorId);
+}
@@ -0,0 +1,143 @@
+import type {
+  AnalyticsRange,
+  Counted,
+  LearnerEvent,
+  LoopAnalytics,
+} from '@/lib/analytics/types';
+
+const TOP = 5;
+
+export function inRange(event: { at: string }, range: AnalyticsRange) {
+  const day = event.at.slice(0, 10);
+  return (!range.from || day >= range.from) && (!range.to || day <= range.to);
+}
+
+function median(values: number[]): number | null {
+  if (!values.length) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+function top(counts: Map<string, number>, n = TOP): Counted[] {
+  return [...counts]
+    .map(([name, count]) => ({ name, count }))
+    .sort((a, b) => b.count - a.count || a.name.localeCompare(b.name))
+    .slice(0, n);
+}
+
+function bump(counts: Map<string, number>, key: string) {
+  counts.set(key, (counts.get(key) ?? 0) + 1);
+}
+
+// One row per loop that has events, in loop id order. `titles` names the
+// loops (ids of removed loops are shown as they are). Events are oldest
+// first, as the log keeps them.
+export function aggregateEvents(
+  events: LearnerEvent[],
+  titles: Record<string, string>,
+): LoopAnalytics[] {
+  const byLoop = new Map<string, LearnerEvent[]>();
+  for (const e of events) {
+    const list = byLoop.get(e.loopId) ?? [];
+    list.push(e);
+    byLoop.set(e.loopId, list);
+  }
+
+  return [...byLoop.keys()].sort().map((loopId) => {
+    const loopEvents = byLoop.get(loopId)!;
+    const runs = loopEvents.flatMap((e) =>
+      e.type === 'run' && e.mode === 'normal' ? [e] : [],
+    );
+    const hints = loopEvents.flatMap((e) => (e.type === 'hint' ? [e] : []));
+
+    // Attempts per learner until their first pass
+    const attempts = new Map<string, number>();
+    const solvedAfter = new Map<string, number>();
+    const failing = new Map<string, number>();
+    for (const run of runs) {
+      if (solvedAfter.has(run.learnerId)) continue;
+      const n = (attempts.get(run.learnerId) ?? 0) + 1;
+      attempts.set(run.learnerId, n);
+      if (run.passed) solvedAfter.set(run.learnerId, n);
+    }
+    for (const run of runs) {
+      for (const name of new Set(run.failingTests)) bump(failing, name);
+    }
+
+    const patterns = new Map<string, number>();
+    const hintTiers: Record<1 | 2 | 3, number> = { 1: 0, 2: 0, 3: 0 };
+    for (const hint of hints) {
+      hintTiers[hint.tier] += 1;
+      for (const d of hint.detectors) bump(patterns, d);
+      if (hint.rule) bump(patterns, `rule: ${hint.rule}`);
+    }
+
+    const passed = runs.filter((r) => r.passed).length;
+    return {
+      loopId,
+      title: titles[loopId] ?? loopId,
+      learners: attempts.size,
+      runs: runs.length,
+      passRate: runs.length ? passed / runs.length : null,
+      solveRate: attempts.size ? solvedAfter.size / attempts.size : null,
+      medianAttemptsToSolve: median([...solvedAfter.values()]),
+      hints: hints.length,
+      hintTiers,
+      failingTests: top(failing),
+      bugPatterns: top(patterns),
+    };
+  });
+}
+
+// Text starting with = + - @ would run as a formula in a spreadsheet;
+// the leading ' makes it plain text.
+function csvCell(value: string | number | null): string {
+  let text = value == null ? '' : String(value);
+  if (typeof value === 'string' && /^[=+\-@]/.test(text)) text = `'${text}`;
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+const counted = (list: Counted[]) =>
+  list.map((c) => `${c.name} (${c.count})`).join('; ');
+
+const rate = (r: number | null) => (r == null ? null : r.toFixed(3));
+
+// One line per loop, for spreadsheets
+export function analyticsCsv(rows: LoopAnalytics[]): string {
+  const header = [
+    'loop_id',
+    'title',
+    'learners',
+    'runs',
+    'pass_rate',
+    'solve_rate',
+    'median_attempts_to_solve',
+    'hints',
+    'hint_tier_1',
+    'hint_tier_2',
+    'hint_tier_3',
+    'top_failing_tests',
+    'top_bug_patterns',
+  ];
+  const lines = rows.map((r) =>
+    [
+      r.loopId,
+      r.title,
+      r.learners,
+      r.runs,
+      rate(r.passRate),
+      rate(r.solveRate),
+      r.medianAttemptsToSolve,
+      r.hints,
+      r.hintTiers[1],
+      r.hintTiers[2],
+      r.hintTiers[3],
+      counted(r.failingTests),
+      counted(r.bugPatterns),
+    ]
+      .map(csvCell)
+      .join(','),
+  );
+  return [header.join(','), ...lines].join('\n') + '\n';
+}
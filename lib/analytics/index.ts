@@ -0,0 +1,52 @@
+import { aggregateEvents, inRange } from '@/lib/analytics/aggregate';
+import type {
+  AnalyticsRange,
+  HintEvent,
+  LearnerEvent,
+  LoopAnalytics,
+  RunEvent,
+} from '@/lib/analytics/types';
+import { listLoops } from '@/lib/loops/catalog';
+import type { UiTest } from '@/lib/runner/types';
+import { createEventLog } from '@/lib/store/eventLog';
+
+// Run and hint events of every learner, for the instructor dashboard.
+
+const log = createEventLog<LearnerEvent>('events');
+
+// The dashboard shows every learner's activity: dev builds, or production
+// with TRYLOOP_DASHBOARD=1 (behind the deployment's own access control).
+export function isDashboardEnabled() {
+  return (
+    process.env.NODE_ENV !== 'production' ||
+    process.env.TRYLOOP_DASHBOARD === '1'
+  );
+}
+
+// Failing tests as the learner saw them: hidden ones by category only
+export function failingTestNames(tests: UiTest[]): string[] {
+  return tests
+    .filter((t) => t.state === 'fail')
+    .map((t) =>
+      t.visibility === 'hidden' ? `Hidden: ${t.category ?? 'other'}` : t.name,
+    );
+}
+
+export function recordRunEvent(event: Omit<RunEvent, 'type' | 'at'>) {
+  return log.append({ type: 'run', at: new Date().toISOString(), ...event });
+}
+
+export function recordHintEvent(event: Omit<HintEvent, 'type' | 'at'>) {
+  return log.append({ type: 'hint', at: new Date().toISOString(), ...event });
+}
+
+export async function loopAnalytics(
+  range: AnalyticsRange = {},
+): Promise<LoopAnalytics[]> {
+  const [events, loops] = await Promise.all([log.readAll(), listLoops()]);
+  const titles = Object.fromEntries(loops.map((l) => [l.id, l.title]));
+  return aggregateEvents(
+    events.filter((e) => inRange(e, range)),
+    titles,
+  );
+}
@@ -0,0 +1,44 @@
+import type { DetectorId } from '@/lib/analysis/types';
+
+// Client-safe: learner events for the instructor dashboard, and what it
+// shows per loop.
+
+export type RunEvent = {
+  type: 'run';
+  at: string; // ISO time
+  learnerId: string;
+  loopId: string;
+  mode: 'normal' | 'glitch';
+  passed: boolean;
+  failingTests: string[]; // names as the learner saw them (hidden: category)
+};
+
+export type HintEvent = {
+  type: 'hint';
+  at: string;
+  learnerId: string;
+  loopId: string;
+  tier: 1 | 2 | 3;
+  rule: string | null; // coach.json rule that matched, if any
+  detectors: DetectorId[]; // bug patterns found in the code (TypeScript)
+};
+
+export type LearnerEvent = RunEvent | HintEvent;
+
+export type Counted = { name: string; count: number };
+
+export type LoopAnalytics = {
+  loopId: string;
+  title: string;
+  learners: number; // with at least one normal-mode run
+  runs: number; // normal mode
+  passRate: number | null; // passing runs / runs
+  solveRate: number | null; // learners who solved / learners
+  medianAttemptsToSolve: number | null; // runs up to the first pass
+  hints: number;
+  hintTiers: Record<1 | 2 | 3, number>;
+  failingTests: Counted[]; // most frequent first
+  bugPatterns: Counted[]; // detectors and coach rules, most frequent first
+};
+
+export type AnalyticsRange = { from?: string; to?: string }; // YYYY-MM-DD, inclusive
@@ -0,0 +1,166 @@
+import {
+  DETECTOR_IDS,
+  isDetectorId,
+  type DetectorId,
+} from '@/lib/analysis/types';
+
+// loops/<id>/coach.json: declarative hint rules, written by loop authors.
+
+export type CoachTierText = {
+  nudge: string;
+  questions?: string[];
+  doc?: string; // label (or part of one) from the loop's docs
+  microExample?: string; // tier 3 only
+};
+
+export type CoachTiers = Partial<Record<'1' | '2' | '3', CoachTierText>>;
+
+// Every present matcher must hit; within a list, any entry may hit.
+// Code matchers (detectors, code, codeNot) must all hit in the same file:
+// `file` if set, otherwise any editable file of the loop.
+export type CoachMatch = {
+  file?: string; // workspace path, for multi-file loops
+  detectors?: DetectorId[]; // lib/analysis detectors, run on the syntax tree
+  code?: string; // regex the submitted code must match
+  codeNot?: string; // regex the submitted code must NOT match
+  failingTests?: string[]; // substrings of a failing test name (case-insensitive)
+  errors?: string[]; // substrings of a failing test's error text (case-insensitive)
+};
+
+export type CoachRule = {
+  id: string;
+  when: CoachMatch;
+  tiers: CoachTiers;
+};
+
+export type CoachRules = {
+  doc?: string; // default doc label for this loop
+  rules: CoachRule[]; // first match wins, so order by priority
+  fallback?: CoachTiers; // used when no rule matches
+};
+
+const TIERS = ['1', '2', '3'] as const;
+
+type Json = Record<string, unknown>;
+
+// coach.json is parsed JSON: every field is checked before it is used
+function isObject(x: unknown): x is Json {
+  return !!x && typeof x === 'object' && !Array.isArray(x);
+}
+
+function isStringArray(x: unknown): x is string[] {
+  return Array.isArray(x) && x.every((v) => typeof v === 'string');
+}
+
+function regexIssue(source: unknown, where: string) {
+  if (typeof source !== 'string') return `${where} must be a regex string`;
+  try {
+    new RegExp(source);
+    return null;
+  } catch (e: unknown) {
+    return `${where} is not a valid regex: ${(e as Error).message}`;
+  }
+}
+
+function tierIssues(tiers: unknown, where: string): string[] {
+  if (!isObject(tiers)) {
+    return [`${where} must be an object keyed by tier ("1", "2", "3")`];
+  }
+
+  const issues: string[] = [];
+  for (const key of Object.keys(tiers)) {
+    if (!TIERS.includes(key as (typeof TIERS)[number])) {
+      issues.push(`${where}: unknown tier "${key}"`);
+      continue;
+    }
+    const t = tiers[key];
+    if (!isObject(t)) {
+      issues.push(`${where}.${key}.nudge is required`);
+      continue;
+    }
+    if (typeof t.nudge !== 'string' || !t.nudge.trim()) {
+      issues.push(`${where}.${key}.nudge is required`);
+    }
+    if (t.questions != null && !isStringArray(t.questions)) {
+      issues.push(`${where}.${key}.questions must be an array of strings`);
+    }
+    if (t.doc != null && typeof t.doc !== 'string') {
+      issues.push(`${where}.${key}.doc must be a string`);
+    }
+    if (t.microExample != null && typeof t.microExample !== 'string') {
+      issues.push(`${where}.${key}.microExample must be a string`);
+    }
+  }
+  return issues;
+}
+
+export function coachRulesIssues(raw: unknown): string[] {
+  if (!isObject(raw)) {
+    return ['coach.json must be a JSON object'];
+  }
+  const o = raw;
+  const issues: string[] = [];
+
+  if (o.doc != null && typeof o.doc !== 'string') {
+    issues.push('"doc" must be a string');
+  }
+  if (o.fallback != null) issues.push(...tierIssues(o.fallback, 'fallback'));
+
+  if (!Array.isArray(o.rules)) {
+    issues.push('"rules" must be an array');
+    return issues;
+  }
+
+  const ids = new Set<string>();
+  o.rules.forEach((r: unknown, i: number) => {
+    const where = `rules[${i}]`;
+    if (!isObject(r)) {
+      issues.push(`${where} must be an object`);
+      return;
+    }
+    if (typeof r.id !== 'string' || !r.id) {
+      issues.push(`${where}.id is required`);
+    } else if (ids.has(r.id)) {
+      issues.push(`${where}.id "${r.id}" is duplicated`);
+    } else {
+      ids.add(r.id);
+    }
+
+    const when = r.when;
+    if (!isObject(when)) {
+      issues.push(`${where}.when is required`);
+    } else {
+      if (!Object.keys(when).length) {
+        issues.push(`${where}.when needs at least one matcher`);
+      }
+      if (when.file != null && typeof when.file !== 'string') {
+        issues.push(`${where}.when.file must be a string`);
+      }
+      for (const key of ['code', 'codeNot'] as const) {
+        if (when[key] == null) continue;
+        const issue = regexIssue(when[key], `${where}.when.${key}`);
+        if (issue) issues.push(issue);
+      }
+      if (when.detectors != null) {
+        if (!isStringArray(when.detectors)) {
+          issues.push(`${where}.when.detectors must be an array of strings`);
+        } else {
+          for (const d of when.detectors.filter((d) => !isDetectorId(d))) {
+            issues.push(
+              `${where}.when.detectors: unknown detector "${d}" (known: ${DETECTOR_IDS.join(', ')})`,
+            );
+          }
+        }
+      }
+      for (const key of ['failingTests', 'errors'] as const) {
+        if (when[key] != null && !isStringArray(when[key])) {
+          issues.push(`${where}.when.${key} must be an array of strings`);
+        }
+      }
+    }
+
+    issues.push(...tierIssues(r.tiers, `${where}.tiers`));
+  });
+
+  return issues;
+}
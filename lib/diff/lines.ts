@@ -0,0 +1,52 @@
+// Line diff (LCS) for comparing two code snapshots. Snapshots are small
+// (editor-sized), so the quadratic table is fine.
+
+export type DiffLine = {
+  type: 'same' | 'add' | 'del';
+  text: string;
+  before?: number; // 1-based line in the old text
+  after?: number; // 1-based line in the new text
+};
+
+export function diffLines(oldText: string, newText: string): DiffLine[] {
+  const a = oldText.split('\n');
+  const b = newText.split('\n');
+
+  // lcs[i][j] = length of the LCS of a[i..] and b[j..]
+  const lcs = Array.from({ length: a.length + 1 }, () =>
+    new Array<number>(b.length + 1).fill(0),
+  );
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] =
+        a[i] === b[j]
+          ? lcs[i + 1][j + 1] + 1
+          : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const out: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      out.push({ type: 'same', text: a[i], before: i + 1, after: j + 1 });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      out.push({ type: 'del', text: a[i], before: i + 1 });
+      i++;
+    } else {
+      out.push({ type: 'add', text: b[j], after: j + 1 });
+      j++;
+    }
+  }
+  for (; i < a.length; i++) {
+    out.push({ type: 'del', text: a[i], before: i + 1 });
+  }
+  for (; j < b.length; j++) {
+    out.push({ type: 'add', text: b[j], after: j + 1 });
+  }
+
+  return out;
+}
@@ -0,0 +1,65 @@
+import path from 'node:path';
+import { readFile } from 'node:fs/promises';
+import {
+  LANGUAGES,
+  loopLanguage,
+  type LoopLanguage,
+} from '@/lib/loops/languages';
+
+export type GlitchId = 'COMPARATOR_OFF_BY_ONE' | 'MISSING_RETURN';
+
+type Glitch = {
+  id: GlitchId;
+  label: string;
+  // Returns the broken code, or null if the glitch has nothing to break
+  apply: (code: string) => string | null;
+};
+
+const GLITCHES: Record<GlitchId, Glitch> = {
+  COMPARATOR_OFF_BY_ONE: {
+    id: 'COMPARATOR_OFF_BY_ONE',
+    label: 'Off-by-one comparison',
+    apply: (code) => {
+      // Flip the first inclusive comparison (>= / <=) to its exclusive form
+      const m = /([<>])=(?!=)/.exec(code);
+      if (!m) return null;
+      return code.slice(0, m.index) + m[1] + code.slice(m.index + 2);
+    },
+  },
+  MISSING_RETURN: {
+    id: 'MISSING_RETURN',
+    label: 'Missing return',
+    apply: (code) => {
+      // Keep the expression, drop the return keyword
+      const m = /\breturn\s+/.exec(code);
+      if (!m) return null;
+      return code.slice(0, m.index) + code.slice(m.index + m[0].length);
+    },
+  },
+};
+
+export function isGlitchId(x: unknown): x is GlitchId {
+  return typeof x === 'string' && Object.hasOwn(GLITCHES, x);
+}
+
+export function listGlitches(): Array<{ id: GlitchId; label: string }> {
+  return Object.values(GLITCHES).map(({ id, label }) => ({ id, label }));
+}
+
+export function glitchLabel(id: GlitchId) {
+  return GLITCHES[id].label;
+}
+
+export function applyGlitch(id: GlitchId, code: string): string | null {
+  return GLITCHES[id].apply(code);
+}
+
+// Server-only: reference solutions never leave the server un-glitched.
+export async function loadReferenceSolution(loop: {
+  id: string;
+  language?: LoopLanguage;
+}) {
+  const file = LANGUAGES[loopLanguage(loop)].referenceFile;
+  const filePath = path.join(process.cwd(), 'loops', loop.id, file);
+  return readFile(filePath, 'utf8');
+}
@@ -0,0 +1,90 @@
+import { createJsonStore } from '@/lib/store/jsonStore';
+
+// Server-owned hint budget, per learner and per loop.
+
+type LedgerEntry = {
+  hintsLeft: number;
+  tierUsed: number; // 0..3 (0 = no hint revealed yet)
+  updatedAt: string;
+};
+
+type LedgerData = Record<string, Record<string, LedgerEntry>>; // learner → loop
+
+export type HintBalance = {
+  hintBudget: number;
+  hintsLeft: number;
+  tierUsed: number;
+  maxTier: number;
+};
+
+export type SpendResult =
+  | { ok: true; tier: 1 | 2 | 3; balance: HintBalance }
+  | { ok: false; error: string; balance: HintBalance };
+
+type LedgerLoop = { id: string; hintBudget: number };
+
+const store = createJsonStore<LedgerData>('hint-ledger', () => ({}));
+
+function balanceOf(loop: LedgerLoop, entry?: LedgerEntry): HintBalance {
+  return {
+    hintBudget: loop.hintBudget,
+    hintsLeft: entry?.hintsLeft ?? loop.hintBudget,
+    tierUsed: entry?.tierUsed ?? 0,
+    maxTier: Math.min(3, loop.hintBudget),
+  };
+}
+
+export async function getHintBalance(
+  learnerId: string,
+  loop: LedgerLoop,
+): Promise<HintBalance> {
+  const data = await store.read();
+  return balanceOf(loop, data[learnerId]?.[loop.id]);
+}
+
+// Reveal the next tier: spends one token. `tier` (if given) must be exactly
+// the next one, so clients can't skip ahead.
+export function spendHint(
+  learnerId: string,
+  loop: LedgerLoop,
+  tier?: number,
+): Promise<SpendResult> {
+  return store.update((data) => {
+    const balance = balanceOf(loop, data[learnerId]?.[loop.id]);
+    const next = balance.tierUsed + 1;
+
+    if (balance.hintsLeft <= 0) {
+      return { ok: false, error: 'No hint tokens left for this loop', balance };
+    }
+    if (next > balance.maxTier) {
+      return { ok: false, error: 'Max hint tier already revealed', balance };
+    }
+    if (tier != null && tier !== next) {
+      return {
+        ok: false,
+        error: `Hint tier ${tier} is not available yet (next is ${next})`,
+        balance,
+      };
+    }
+
+    const entry: LedgerEntry = {
+      hintsLeft: balance.hintsLeft - 1,
+      tierUsed: next,
+      updatedAt: new Date().toISOString(),
+    };
+    (data[learnerId] ??= {})[loop.id] = entry;
+
+    return {
+      ok: true,
+      tier: next as 1 | 2 | 3,
+      balance: balanceOf(loop, entry),
+    };
+  });
+}
+
+export function resetHints(learnerId: string, loop: LedgerLoop) {
+  return store.update((data) => {
+    delete data[learnerId]?.[loop.id];
+    return balanceOf(loop);
+  });
+}
@@ -0,0 +1,26 @@
+import { randomUUID } from 'node:crypto';
+import { cookies } from 'next/headers';
+
+// Anonymous learner identity: a random id in an httpOnly cookie.
+const COOKIE = 'tryloop_learner';
+const ONE_YEAR = 60 * 60 * 24 * 365;
+
+function isLearnerId(x: string | undefined): x is string {
+  return !!x && /^[\w-]{8,64}$/.test(x);
+}
+
+// For route handlers: returns the learner id, issuing a cookie on first visit.
+export async function getOrCreateLearnerId(): Promise<string> {
+  const jar = await cookies();
+  const existing = jar.get(COOKIE)?.value;
+  if (isLearnerId(existing)) return existing;
+
+  const id = randomUUID();
+  jar.set(COOKIE, id, {
+    httpOnly: true,
+    sameSite: 'lax',
+    path: '/',
+    maxAge: ONE_YEAR,
+  });
+  return id;
+}
@@ -0,0 +1,243 @@
+import path from 'node:path';
+import { mkdir, rename, rm, writeFile } from 'node:fs/promises';
+import { getRunner } from '@/lib/runner';
+import { invalidateLoop } from '@/lib/runner/cache';
+import { getRunQueue } from '@/lib/runner/queue';
+import { LANGUAGES, loopLanguage } from '@/lib/loops/languages';
+import {
+  folderReader,
+  isValidLoopId,
+  loadLoop,
+  loopDir,
+  parseLoopJson,
+  type LoopFileReader,
+} from '@/lib/loops/load';
+import {
+  loopManifestIssues,
+  loopReferenceFiles,
+  loopTestFiles,
+  type LoopManifest,
+} from '@/lib/loops/schema';
+import { validateLoop } from '@/lib/loops/validate';
+import { loadReference, runLoopFiles, type LoopRun } from '@/lib/loops/verify';
+
+// Server side of the authoring studio. A loop is edited as a LoopSource: the
+// manifest plus the text of its spec files and reference solution. Other
+// files in the folder (coach.json, the performance input) are read from disk
+// and never written.
+
+// The studio writes into loops/, so production builds only enable it with
+// TRYLOOP_STUDIO=1 (e.g. an instructor's own deployment).
+export function isStudioEnabled() {
+  return (
+    process.env.NODE_ENV !== 'production' || process.env.TRYLOOP_STUDIO === '1'
+  );
+}
+
+export type LoopSource = {
+  loop: LoopManifest;
+  tests: Record<string, string>; // spec file name → content
+  reference: Record<string, string>; // workspace path → reference solution
+};
+
+export type LoopCheck = {
+  ok: boolean;
+  issues: string[];
+  reference: LoopRun | null; // null when validation failed first
+};
+
+// Reads loops/<id>/ as a LoopSource. Throws LoopNotFoundError or
+// LoopValidationError, like loadLoop().
+export async function readLoopSource(loopId: string): Promise<LoopSource> {
+  const loop = await loadLoop(loopId);
+  const read = folderReader(loopId);
+  const { public: publicTests, hidden } = loopTestFiles(loop);
+
+  const tests: Record<string, string> = {};
+  for (const file of [...publicTests, ...hidden]) {
+    tests[file] = (await read(file)) ?? '';
+  }
+  return { loop, tests, reference: await loadReference(loop, read) };
+}
+
+// Starting point for a loop that doesn't exist yet: one TypeScript file,
+// one spec file.
+export function newLoopSource(loopId: string): LoopSource {
+  const lang = LANGUAGES.typescript;
+  const userModule = `./${lang.userFile.replace(/\.ts$/, '')}`;
+  return {
+    loop: {
+      id: loopId,
+      title: 'New loop',
+      difficulty: 1,
+      hintBudget: 3,
+      exports: ['solve'],
+      spec: ['Write a function `solve(input)`.'],
+      starter: 'export function solve(input) {\n  // your code\n}\n',
+      tests: { public: [lang.defaultTests] },
+    },
+    tests: {
+      [lang.defaultTests]: `import { describe, it, expect } from 'vitest';\nimport { solve } from '${userModule}';\n\ndescribe('solve', () => {\n  it('works', () => {\n    expect(solve(1)).toEqual(1);\n  });\n});\n`,
+    },
+    reference: {
+      [lang.userFile]:
+        'export function solve(input: number) {\n  return input;\n}\n',
+    },
+  };
+}
+
+function isStringRecord(x: unknown): x is Record<string, string> {
+  return (
+    !!x &&
+    typeof x === 'object' &&
+    !Array.isArray(x) &&
+    Object.values(x).every((v) => typeof v === 'string')
+  );
+}
+
+// Shape check for request bodies; the manifest itself is validated later.
+export function loopSourceError(body: unknown): string | null {
+  const o = body as Partial<LoopSource> | null;
+  if (!o || typeof o !== 'object' || !o.loop || typeof o.loop !== 'object') {
+    return 'body must be { loop, tests, reference }';
+  }
+  if (!isStringRecord(o.tests)) {
+    return 'tests must be an object of file → content';
+  }
+  if (!isStringRecord(o.reference)) {
+    return 'reference must be an object of path → content';
+  }
+  return null;
+}
+
+// Folder files (relative path → content) a save would write. Only the spec
+// files the manifest lists and the reference files it implies are included,
+// so a draft can't write anywhere else.
+export function loopSourceFiles(source: LoopSource): Record<string, string> {
+  const out: Record<string, string> = {
+    'loop.json': `${JSON.stringify(source.loop, null, 2)}\n`,
+  };
+  if (loopManifestIssues(source.loop).length) return out;
+
+  const { public: publicTests, hidden } = loopTestFiles(source.loop);
+  for (const file of [...publicTests, ...hidden]) {
+    if (typeof source.tests[file] === 'string') {
+      out[file] = source.tests[file];
+    }
+  }
+  const refs = loopReferenceFiles(source.loop);
+  for (const [filePath, file] of Object.entries(refs)) {
+    if (source.reference[filePath]?.trim()) {
+      out[file] = source.reference[filePath];
+    }
+  }
+  return out;
+}
+
+// The draft layered over the loop folder (if there is one yet).
+function sourceReader(loopId: string, source: LoopSource): LoopFileReader {
+  const draft = loopSourceFiles(source);
+  const folder = folderReader(loopId);
+  return async (file) => (file in draft ? draft[file] : folder(file));
+}
+
+// Spec and reference files a manifest owns in its folder
+function manifestFiles(loop: LoopManifest): string[] {
+  const { public: publicTests, hidden } = loopTestFiles(loop);
+  return [
+    ...publicTests,
+    ...hidden,
+    ...Object.values(loopReferenceFiles(loop)),
+  ];
+}
+
+// Validates a draft like `npm run loops:validate`, then runs its tests
+// against the reference solution. Nothing is written. The tests are
+// arbitrary code, so the run takes a place in the run queue like a
+// learner's; throws RunRejectedError when `learnerId` is over the limit or
+// the queue is full.
+export async function checkLoopSource(
+  loopId: string,
+  source: LoopSource,
+  learnerId: string,
+): Promise<LoopCheck> {
+  if (!isValidLoopId(loopId)) {
+    return {
+      ok: false,
+      issues: [`"${loopId}" is not a valid loop id (letters, digits, - and _)`],
+      reference: null,
+    };
+  }
+
+  const read = sourceReader(loopId, source);
+  const issues = await validateLoop(loopId, read);
+
+  let loop: LoopManifest;
+  try {
+    loop = parseLoopJson((await read('loop.json'))!, loopId);
+  } catch {
+    return { ok: false, issues, reference: null };
+  }
+
+  if (issues.length) return { ok: false, issues, reference: null };
+
+  const language = loopLanguage(loop);
+  const runner = getRunner();
+  if (!runner.languages.includes(language)) {
+    issues.push(
+      `The ${runner.name} runner can't run ${LANGUAGES[language].label} loops (set TRYLOOP_RUNNER=docker)`,
+    );
+    return { ok: false, issues, reference: null };
+  }
+
+  const reference = await loadReference(loop, read);
+  const ticket = getRunQueue().reserve(learnerId);
+  const run = await ticket.run(() =>
+    runLoopFiles(loop, reference, read, runner),
+  );
+  const failed = run.tests.filter((t) => t.state === 'fail');
+
+  if (!run.tests.length) {
+    issues.push('the tests ran no test cases against the reference solution');
+  } else if (failed.length) {
+    issues.push(
+      `the reference solution fails ${failed.length} test(s): ${failed.map((t) => t.name).join('; ')}`,
+    );
+  } else if (run.performance && !run.performance.passed) {
+    issues.push('the reference solution is over the performance budget');
+  } else if (!run.passed) {
+    issues.push('the reference solution run failed (see stderr)');
+  }
+
+  return { ok: !issues.length, issues, reference: run };
+}
+
+// Checks the draft and, only if the check passes, writes it into
+// loops/<id>/ (each file atomically), removes spec and reference files the
+// new manifest no longer lists, and drops the loop's cached runs.
+export async function saveLoopSource(
+  loopId: string,
+  source: LoopSource,
+  learnerId: string,
+): Promise<LoopCheck> {
+  const check = await checkLoopSource(loopId, source, learnerId);
+  if (!check.ok) return check;
+
+  // What the loop on disk owns now (nothing yet for a new loop)
+  const previous = await loadLoop(loopId).then(manifestFiles, () => []);
+
+  const dir = loopDir(loopId);
+  for (const [file, content] of Object.entries(loopSourceFiles(source))) {
+    const filePath = path.join(dir, file);
+    await mkdir(path.dirname(filePath), { recursive: true });
+    const tmp = `${filePath}.${process.pid}.tmp`;
+    await writeFile(tmp, content, 'utf8');
+    await rename(tmp, filePath);
+  }
+  const kept = new Set(manifestFiles(source.loop));
+  for (const file of previous) {
+    if (!kept.has(file)) await rm(path.join(dir, file), { force: true });
+  }
+  invalidateLoop(loopId);
+  return check;
+}
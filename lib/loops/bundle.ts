@@ -0,0 +1,81 @@
+import { exampleHarness } from '@/lib/loops/examples';
+import type { LoopFileReader } from '@/lib/loops/load';
+import { loopLanguage } from '@/lib/loops/languages';
+import { workspaceFiles } from '@/lib/loops/files';
+import {
+  loopTestFiles,
+  perfTargetFile,
+  propertyTarget,
+  type LoopManifest,
+} from '@/lib/loops/schema';
+import { PERF_EXTRA_TIMEOUT_MS, perfHarness } from '@/lib/perf/harness';
+import {
+  PROPERTY_EXTRA_TIMEOUT_MS,
+  propertyHarness,
+} from '@/lib/property/harness';
+import type { RunBundle } from '@/lib/runner/types';
+
+// Fails when a file the manifest names (a test, the perf input, the
+// properties module) is missing.
+export type LoopBundle =
+  { ok: true; bundle: RunBundle } | { ok: false; error: string };
+
+// Everything a run of `editable` needs: the whole file set (editable files +
+// fixtures), the server-owned tests (public + hidden), the examples as tests,
+// the property tests with the author's properties module and, with a
+// performance budget, the author's input generator plus the timing harness.
+export async function loopRunBundle(
+  loop: LoopManifest,
+  editable: Record<string, string>,
+  read: LoopFileReader,
+): Promise<LoopBundle> {
+  const language = loopLanguage(loop);
+  const testFiles = loopTestFiles(loop);
+  const files = workspaceFiles(loop, editable);
+
+  for (const file of [...testFiles.public, ...testFiles.hidden]) {
+    const content = await read(file);
+    if (content == null) {
+      return { ok: false, error: `Loop tests not found for ${loop.id}` };
+    }
+    files[file] = content;
+  }
+  Object.assign(files, exampleHarness(loop));
+
+  const properties = loop.properties;
+  if (properties) {
+    const spec = await read(properties.file);
+    if (spec == null) {
+      return { ok: false, error: `Properties not found for ${loop.id}` };
+    }
+    files[properties.file] = spec;
+    const { call, file } = propertyTarget(loop)!;
+    Object.assign(
+      files,
+      await propertyHarness(properties, call, file, language),
+    );
+  }
+
+  const budget = loop.performance;
+  if (budget) {
+    const input = await read(budget.input);
+    if (input == null) {
+      return { ok: false, error: `Performance input not found for ${loop.id}` };
+    }
+    files[budget.input] = input;
+    Object.assign(files, perfHarness(budget, perfTargetFile(loop)!, language));
+  }
+
+  return {
+    ok: true,
+    bundle: {
+      files,
+      hiddenFiles: testFiles.hidden,
+      timeoutMs:
+        8000 +
+        (budget ? PERF_EXTRA_TIMEOUT_MS : 0) +
+        (properties ? PROPERTY_EXTRA_TIMEOUT_MS : 0),
+      language,
+    },
+  };
+}
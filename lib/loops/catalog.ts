@@ -0,0 +1,45 @@
+import { readdir } from 'node:fs/promises';
+import { loopLanguage, type LoopLanguage } from '@/lib/loops/languages';
+import { loadLoop, LOOPS_DIR } from '@/lib/loops/load';
+import { loopExports, loopFiles } from '@/lib/loops/schema';
+
+export type LoopSummary = {
+  id: string;
+  title: string;
+  language: LoopLanguage;
+  difficulty: number;
+  hintBudget: number;
+  exports: string[];
+  fileCount: number; // learner-visible workspace files
+  glitches: string[];
+};
+
+// Scan loops/*/loop.json. Folders without a valid manifest are skipped
+// (`npm run loops:validate` reports them).
+export async function listLoops(): Promise<LoopSummary[]> {
+  const entries = await readdir(LOOPS_DIR, { withFileTypes: true });
+  const out: LoopSummary[] = [];
+
+  for (const entry of entries) {
+    if (!entry.isDirectory()) continue;
+
+    try {
+      const loop = await loadLoop(entry.name);
+
+      out.push({
+        id: loop.id,
+        title: loop.title,
+        language: loopLanguage(loop),
+        difficulty: loop.difficulty,
+        hintBudget: loop.hintBudget,
+        exports: loopExports(loop),
+        fileCount: loopFiles(loop).length,
+        glitches: loop.glitches ?? [],
+      });
+    } catch {
+      // not a loop folder (or a broken one)
+    }
+  }
+
+  return out.sort((a, b) => a.id.localeCompare(b.id));
+}
@@ -0,0 +1,93 @@
+import { loopLanguage, type LoopLanguage } from '@/lib/loops/languages';
+import {
+  exampleArgs,
+  exampleTarget,
+  type LoopManifest,
+} from '@/lib/loops/schema';
+import type { UiTest } from '@/lib/runner/types';
+
+// The loop's `examples`, run as ordinary public tests: the server adds one
+// generated test file to the workspace (like the performance harness), with
+// one test per example, in order. Test titles carry the example number.
+export const EXAMPLE_HARNESS_FILES: Record<LoopLanguage, string> = {
+  typescript: 'tryloop-examples.spec.ts',
+  python: 'test_tryloop_examples.py',
+};
+
+function harnessFileOf(test: Pick<UiTest, 'file'>) {
+  return test.file?.split(/[\\/]/).pop()?.split('::')[0];
+}
+
+// Index in `examples` of an example test, or null for any other test.
+export function exampleIndex(test: Pick<UiTest, 'file' | 'name'>) {
+  const file = harnessFileOf(test);
+  if (!Object.values(EXAMPLE_HARNESS_FILES).some((f) => f === file)) {
+    return null;
+  }
+  const m = /example[ _](\d+)/.exec(test.name);
+  return m ? Number(m[1]) - 1 : null;
+}
+
+// Marks example tests with their index, for the badges on the spec.
+export function tagExample(test: UiTest): UiTest {
+  const example = exampleIndex(test);
+  return example == null ? test : { ...test, example };
+}
+
+function stripExtension(file: string) {
+  return file.replace(/\.\w+$/, '');
+}
+
+function typescriptHarness(loop: LoopManifest) {
+  const examples = loop.examples ?? [];
+  const files = [
+    ...new Set(examples.map((ex) => exampleTarget(loop, ex).file)),
+  ];
+  const imports = files.map(
+    (f, i) => `import * as m${i} from './${stripExtension(f)}';`,
+  );
+  const tests = examples.map((ex, i) => {
+    const { call, file } = exampleTarget(loop, ex);
+    const target = `(m${files.indexOf(file)} as any)[${JSON.stringify(call)}]`;
+    const args = JSON.stringify(exampleArgs(ex));
+    return `  it(${JSON.stringify(`example ${i + 1}: ${call}()`)}, () => {
+    expect(${target}(...${args})).toEqual(${JSON.stringify(ex.output)});
+  });`;
+  });
+
+  return `import { describe, it, expect } from 'vitest';
+${imports.join('\n')}
+
+describe('examples', () => {
+${tests.join('\n\n')}
+});
+`;
+}
+
+function pythonHarness(loop: LoopManifest) {
+  const moduleName = (f: string) => stripExtension(f).replace(/\//g, '.');
+  // JSON text is a valid Python string literal once quoted
+  const json = (x: unknown) => JSON.stringify(JSON.stringify(x));
+  const tests = (loop.examples ?? []).map((ex, i) => {
+    const { call, file } = exampleTarget(loop, ex);
+    return `def test_example_${i + 1}():
+    target = getattr(importlib.import_module(${JSON.stringify(moduleName(file))}), ${JSON.stringify(call)})
+    assert target(*json.loads(${json(exampleArgs(ex))})) == json.loads(${json(ex.output)})`;
+  });
+
+  return `import importlib
+import json
+
+
+${tests.join('\n\n\n')}
+`;
+}
+
+// Workspace file with the example tests; empty when there are no examples.
+export function exampleHarness(loop: LoopManifest): Record<string, string> {
+  if (!loop.examples?.length) return {};
+  const language = loopLanguage(loop);
+  const source =
+    language === 'python' ? pythonHarness(loop) : typescriptHarness(loop);
+  return { [EXAMPLE_HARNESS_FILES[language]]: source };
+}
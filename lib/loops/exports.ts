@@ -0,0 +1,48 @@
+import type { LoopLanguage } from '@/lib/loops/languages';
+
+// Python has no export keyword: every top-level def, class or assignment is
+// importable from the module.
+function findPythonNames(code: string): string[] {
+  const names = new Set<string>();
+  const top =
+    /^(?:(?:async\s+)?def|class)\s+([A-Za-z_]\w*)|^([A-Za-z_]\w*)\s*(?::[^=\n]*)?=(?!=)/gm;
+  for (const m of code.matchAll(top)) names.add(m[1] ?? m[2]);
+  return [...names];
+}
+
+// Names a module exports, found by scanning the source text.
+// Good enough for starters and learner code; not a full parser.
+export function findExports(
+  code: string,
+  language: LoopLanguage = 'typescript',
+): string[] {
+  if (language === 'python') return findPythonNames(code);
+
+  const names = new Set<string>();
+
+  const decl =
+    /\bexport\s+(?:default\s+)?(?:async\s+)?(?:function\*?|const|let|var|class)\s+([A-Za-z_$][\w$]*)/g;
+  for (const m of code.matchAll(decl)) names.add(m[1]);
+
+  const list = /\bexport\s*\{([^}]*)\}/g;
+  for (const m of code.matchAll(list)) {
+    for (const part of m[1].split(',')) {
+      const alias = part
+        .trim()
+        .split(/\s+as\s+/)
+        .pop();
+      if (alias) names.add(alias.trim());
+    }
+  }
+
+  return [...names];
+}
+
+export function missingExports(
+  code: string,
+  expected: string[],
+  language: LoopLanguage = 'typescript',
+) {
+  const found = new Set(findExports(code, language));
+  return expected.filter((name) => !found.has(name));
+}
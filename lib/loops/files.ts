@@ -0,0 +1,60 @@
+import { loopFiles, type LoopManifest } from '@/lib/loops/schema';
+
+export type SubmittedFiles =
+  | { ok: true; files: Record<string, string> } // editable files only
+  | { ok: false; error: string };
+
+// Maps a request body to the loop's editable files. Multi-file clients send
+// `files` ({ path: content }); single-file clients may send `code`, which is
+// the main (first editable) file. Read-only fixtures always come from the
+// manifest, so they are ignored here.
+export function submittedFiles(
+  loop: LoopManifest,
+  body: { code?: unknown; files?: unknown },
+): SubmittedFiles {
+  const all = loopFiles(loop);
+  const editable = all.filter((f) => !f.readOnly).map((f) => f.path);
+
+  if (body.files == null) {
+    if (typeof body.code !== 'string' || !body.code) {
+      return { ok: false, error: 'code is required' };
+    }
+    if (editable.length > 1) {
+      return { ok: false, error: 'files is required for multi-file loops' };
+    }
+    return { ok: true, files: { [editable[0]]: body.code } };
+  }
+
+  if (typeof body.files !== 'object' || Array.isArray(body.files)) {
+    return { ok: false, error: 'files must be an object of path → content' };
+  }
+  const sent = body.files as Record<string, unknown>;
+
+  const known = new Set(all.map((f) => f.path));
+  const unknown = Object.keys(sent).filter((p) => !known.has(p));
+  if (unknown.length) {
+    return { ok: false, error: `Unknown files: ${unknown.join(', ')}` };
+  }
+
+  const files: Record<string, string> = {};
+  for (const path of editable) {
+    if (typeof sent[path] !== 'string') {
+      return { ok: false, error: `files["${path}"] is required` };
+    }
+    files[path] = sent[path];
+  }
+  return { ok: true, files };
+}
+
+// Every workspace file for a run: the learner's editable files plus the
+// manifest's read-only fixtures.
+export function workspaceFiles(
+  loop: LoopManifest,
+  editable: Record<string, string>,
+): Record<string, string> {
+  const out: Record<string, string> = {};
+  for (const f of loopFiles(loop)) {
+    out[f.path] = f.readOnly ? f.starter : editable[f.path];
+  }
+  return out;
+}
@@ -0,0 +1,14 @@
+import { NextResponse } from 'next/server';
+import { LoopValidationError } from '@/lib/loops/schema';
+
+// Maps loadLoop() failures to route responses: a broken manifest is our bug
+// (500 with the issue list), anything else means there is no such loop.
+export function loopErrorResponse(e: unknown) {
+  if (e instanceof LoopValidationError) {
+    return NextResponse.json(
+      { error: e.message, issues: e.issues },
+      { status: 500 },
+    );
+  }
+  return NextResponse.json({ error: 'Loop not found' }, { status: 404 });
+}
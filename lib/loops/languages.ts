@@ -0,0 +1,49 @@
+// Per-language conventions for loops. Kept free of node imports so the
+// editor can use it too.
+
+export const LOOP_LANGUAGES = ['typescript', 'python'] as const;
+
+export type LoopLanguage = (typeof LOOP_LANGUAGES)[number];
+
+export type LanguageInfo = {
+  label: string;
+  userFile: string; // learner code, as the tests import it (single-file loops)
+  extension: string; // of every learner / fixture file
+  referenceFile: string; // reference solution (glitch rounds)
+  defaultTests: string;
+  testFile: RegExp; // test file names the runner picks up
+  testFilePattern: string; // same, for messages
+  exportHint: (name: string) => string;
+};
+
+export const LANGUAGES: Record<LoopLanguage, LanguageInfo> = {
+  typescript: {
+    label: 'TypeScript',
+    userFile: 'user-code.ts',
+    extension: '.ts',
+    referenceFile: 'reference.ts',
+    defaultTests: 'tests.spec.ts',
+    testFile: /^[\w.-]+\.spec\.ts$/,
+    testFilePattern: '*.spec.ts',
+    exportHint: (name) => `export function ${name}(...)`,
+  },
+  python: {
+    label: 'Python',
+    userFile: 'user_code.py',
+    extension: '.py',
+    referenceFile: 'reference.py',
+    defaultTests: 'test_loop.py',
+    testFile: /^test_\w+\.py$/,
+    testFilePattern: 'test_*.py',
+    exportHint: (name) => `def ${name}(...)`,
+  },
+};
+
+export function isLoopLanguage(x: unknown): x is LoopLanguage {
+  return LOOP_LANGUAGES.includes(x as LoopLanguage);
+}
+
+// Manifests without "language" are TypeScript loops.
+export function loopLanguage(loop: { language?: LoopLanguage }): LoopLanguage {
+  return loop.language ?? 'typescript';
+}
@@ -0,0 +1,91 @@
+import path from 'node:path';
+import { readFile } from 'node:fs/promises';
+import { coachRulesIssues, type CoachRules } from '@/lib/coach/schema';
+import {
+  LoopValidationError,
+  parseLoopManifest,
+  type LoopManifest,
+} from '@/lib/loops/schema';
+
+export class LoopNotFoundError extends Error {
+  constructor(loopId: string) {
+    super(`Loop not found: ${loopId}`);
+    this.name = 'LoopNotFoundError';
+  }
+}
+
+export const LOOPS_DIR = path.join(process.cwd(), 'loops');
+
+// Loop ids become path segments, so keep them boring.
+export function isValidLoopId(loopId: string) {
+  return /^[A-Za-z0-9][\w-]*$/.test(loopId);
+}
+
+export function loopDir(loopId: string) {
+  if (!isValidLoopId(loopId)) throw new LoopNotFoundError(loopId);
+  return path.join(LOOPS_DIR, loopId);
+}
+
+// Reads one file of a loop folder by relative path; null when it's missing.
+// The authoring studio layers unsaved drafts over the folder with it.
+export type LoopFileReader = (file: string) => Promise<string | null>;
+
+export function folderReader(loopId: string): LoopFileReader {
+  const dir = loopDir(loopId);
+  return async (file) => {
+    try {
+      return await readFile(path.join(dir, file), 'utf8');
+    } catch {
+      return null;
+    }
+  };
+}
+
+function parseJson(raw: string, source: string): unknown {
+  try {
+    return JSON.parse(raw);
+  } catch (e: unknown) {
+    throw new LoopValidationError(source, [
+      `not valid JSON: ${(e as Error).message}`,
+    ]);
+  }
+}
+
+// Parses and validates the text of loops/<id>/loop.json.
+// Throws LoopValidationError.
+export function parseLoopJson(raw: string, loopId: string): LoopManifest {
+  const source = `loops/${loopId}/loop.json`;
+  const loop = parseLoopManifest(parseJson(raw, source), source);
+  if (loop.id !== loopId) {
+    throw new LoopValidationError(source, [
+      `"id" is "${loop.id}" but the folder is "${loopId}"`,
+    ]);
+  }
+  return loop;
+}
+
+// Reads and validates loops/<id>/loop.json.
+// Throws LoopNotFoundError or LoopValidationError.
+export async function loadLoop(loopId: string): Promise<LoopManifest> {
+  const raw = await folderReader(loopId)('loop.json');
+  if (raw == null) throw new LoopNotFoundError(loopId);
+  return parseLoopJson(raw, loopId);
+}
+
+// Parses the text of loops/<id>/coach.json. Throws LoopValidationError.
+export function parseCoachJson(raw: string, loopId: string): CoachRules {
+  const source = `loops/${loopId}/coach.json`;
+  const json = parseJson(raw, source);
+  const issues = coachRulesIssues(json);
+  if (issues.length) throw new LoopValidationError(source, issues);
+  return json as CoachRules;
+}
+
+// Reads loops/<id>/coach.json. Null when the loop has none (generic hints);
+// throws LoopValidationError when it exists but is broken.
+export async function loadCoachRules(
+  loopId: string,
+): Promise<CoachRules | null> {
+  const raw = await folderReader(loopId)('coach.json');
+  return raw == null ? null : parseCoachJson(raw, loopId);
+}
@@ -0,0 +1,171 @@
+import type { LoopLanguage } from '@/lib/loops/languages';
+
+// Automatic mutants of a reference solution, for `npm run loops:verify`: each
+// one is a small plausible bug, and a good test suite fails on every one.
+// Text-based like the glitches (no parser), so a few mutants may behave
+// exactly like the original; surviving ones are reported, not fatal.
+
+export type MutantKind = 'operator' | 'dropped-return' | 'input-mutation';
+
+export type Mutant = {
+  kind: MutantKind;
+  label: string; // e.g. "line 3: >= → >"
+  code: string;
+};
+
+const MAX_PER_KIND = 20;
+
+const TS_FLIPS: Record<string, string> = {
+  '===': '!==',
+  '!==': '===',
+  '>=': '>',
+  '<=': '<',
+  ' > ': ' >= ',
+  ' < ': ' <= ',
+  ' + ': ' - ',
+  ' - ': ' + ',
+  ' * ': ' / ',
+  '&&': '||',
+  '||': '&&',
+};
+
+const PY_FLIPS: Record<string, string> = {
+  '==': '!=',
+  '!=': '==',
+  '>=': '>',
+  '<=': '<',
+  ' > ': ' >= ',
+  ' < ': ' <= ',
+  ' + ': ' - ',
+  ' - ': ' + ',
+  ' * ': ' / ',
+  ' and ': ' or ',
+  ' or ': ' and ',
+};
+
+function escapeRegExp(s: string) {
+  return s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function lineAt(code: string, index: number) {
+  return code.slice(0, index).split('\n').length;
+}
+
+function isCommentLine(code: string, index: number, language: LoopLanguage) {
+  const start = code.lastIndexOf('\n', index - 1) + 1;
+  const line = code.slice(start, index).trimStart();
+  return line.startsWith(language === 'python' ? '#' : '//');
+}
+
+function operatorFlips(code: string, language: LoopLanguage): Mutant[] {
+  const flips = language === 'python' ? PY_FLIPS : TS_FLIPS;
+  // Longest first, so `===` isn't also seen as `==`
+  const ops = Object.keys(flips).sort((a, b) => b.length - a.length);
+  const re = new RegExp(ops.map(escapeRegExp).join('|'), 'g');
+
+  const out: Mutant[] = [];
+  for (const m of code.matchAll(re)) {
+    if (isCommentLine(code, m.index, language)) continue;
+    const to = flips[m[0]];
+    out.push({
+      kind: 'operator',
+      label: `line ${lineAt(code, m.index)}: ${m[0].trim()} → ${to.trim()}`,
+      code: code.slice(0, m.index) + to + code.slice(m.index + m[0].length),
+    });
+  }
+  return out.slice(0, MAX_PER_KIND);
+}
+
+// Keep the expression, lose the value: `return x` → `x`
+function droppedReturns(code: string, language: LoopLanguage): Mutant[] {
+  const out: Mutant[] = [];
+  for (const m of code.matchAll(/\breturn\s+(?=[^\s;])/g)) {
+    if (isCommentLine(code, m.index, language)) continue;
+    out.push({
+      kind: 'dropped-return',
+      label: `line ${lineAt(code, m.index)}: return dropped`,
+      code: code.slice(0, m.index) + code.slice(m.index + m[0].length),
+    });
+  }
+  return out.slice(0, MAX_PER_KIND);
+}
+
+const PRIMITIVE_PARAM = /:\s*(?:number|string|boolean|bigint)\s*$/;
+
+// The function computes the same result, then changes its array / object
+// arguments behind the caller's back. Only a "does not mutate the input"
+// test notices.
+function inputMutations(
+  code: string,
+  names: string[],
+  language: LoopLanguage,
+): Mutant[] {
+  const out: Mutant[] = [];
+
+  for (const name of names) {
+    if (language === 'python') {
+      const decl = new RegExp(`^def\\s+${name}\\s*\\(`, 'm');
+      const m = decl.exec(code);
+      if (!m) continue;
+      const renamed = `_tryloop_${name}`;
+      out.push({
+        kind: 'input-mutation',
+        label: `${name}() mutates its arguments`,
+        code:
+          code.replace(decl, `def ${renamed}(`) +
+          `\n\ndef ${name}(*args, **kwargs):\n` +
+          `    result = ${renamed}(*args, **kwargs)\n` +
+          `    for arg in args:\n` +
+          `        if isinstance(arg, list) and arg:\n` +
+          `            arg.append(arg[0])\n` +
+          `        elif isinstance(arg, dict):\n` +
+          `            arg["tryloop_mutated"] = True\n` +
+          `    return result\n`,
+      });
+      continue;
+    }
+
+    const decl = new RegExp(
+      `\\bexport\\s+(async\\s+)?function\\s+${escapeRegExp(name)}\\s*\\(([^)]*)\\)`,
+    );
+    const m = decl.exec(code);
+    if (!m) continue;
+    // formatCents(cents: number) has nothing to mutate
+    const params = m[2].split(',').filter((p) => p.trim());
+    if (params.length && params.every((p) => PRIMITIVE_PARAM.test(p))) {
+      continue;
+    }
+    const renamed = `__tryloop_${name}`;
+    out.push({
+      kind: 'input-mutation',
+      label: `${name}() mutates its arguments`,
+      code:
+        code.replace(decl, `${m[1] ?? ''}function ${renamed}(${m[2]})`) +
+        `\nexport function ${name}(...args: any[]) {\n` +
+        `  const result = (${renamed} as any)(...args);\n` +
+        `  for (const arg of args) {\n` +
+        `    if (Array.isArray(arg)) {\n` +
+        `      if (arg.length) arg.push(arg[0]);\n` +
+        `    } else if (arg && typeof arg === 'object') {\n` +
+        `      arg.tryloopMutated = true;\n` +
+        `    }\n` +
+        `  }\n` +
+        `  return result;\n` +
+        `}\n`,
+    });
+  }
+  return out;
+}
+
+// Every mutant of one file. `exports` are the names the tests import.
+export function generateMutants(
+  code: string,
+  exports: string[],
+  language: LoopLanguage = 'typescript',
+): Mutant[] {
+  return [
+    ...operatorFlips(code, language),
+    ...droppedReturns(code, language),
+    ...inputMutations(code, exports, language),
+  ];
+}
@@ -0,0 +1,490 @@
+import {
+  isLoopLanguage,
+  LANGUAGES,
+  LOOP_LANGUAGES,
+  loopLanguage,
+  type LanguageInfo,
+  type LoopLanguage,
+} from '@/lib/loops/languages';
+import {
+  COMPLEXITY_CLASSES,
+  isComplexityClass,
+  type PerformanceBudget,
+} from '@/lib/perf/types';
+import { MAX_PROPERTY_RUNS, type PropertySuite } from '@/lib/property/types';
+
+// Single source of truth for loops/<id>/loop.json.
+
+export type LoopDoc = { label: string; url: string };
+
+// A worked example: shown on the loop page and run as an "example" test,
+// `call(...args)` must equal `output`. `call` may be left out when the loop
+// exports a single function; `input` is shorthand for a single argument.
+export type LoopExample<
+  TArgs extends unknown[] = unknown[],
+  TOutput = unknown,
+> = {
+  call?: string;
+  args?: TArgs;
+  input?: TArgs[0];
+  output: TOutput;
+};
+
+// Spec files in the loop folder. Public failures are shown in full; hidden
+// ones are graded but only reported as a count (plus their describe() title
+// as a category). Defaults to the language's test file, e.g.
+// { public: ['tests.spec.ts'] } for TypeScript.
+export type LoopTests = {
+  public?: string[];
+  hidden?: string[];
+};
+
+// One file of a multi-file loop's workspace. Read-only files are fixtures:
+// shown in the editor, but always run from the manifest, never the client.
+export type LoopFile = {
+  path: string; // relative, e.g. 'repository.ts' or 'lib/helpers.ts'
+  starter: string;
+  readOnly?: boolean;
+  exports?: string[]; // names the tests import from this file
+};
+
+// Single-file loops set `starter` + `exports` (the file is the language's
+// user file); multi-file loops list `files` instead.
+export type LoopManifest = {
+  id: string;
+  title: string;
+  language?: LoopLanguage; // default: 'typescript'
+  difficulty: number;
+  hintBudget: number;
+  exports?: string[];
+  spec: string[];
+  examples?: LoopExample[];
+  starter?: string;
+  files?: LoopFile[];
+  docs?: LoopDoc[];
+  glitches?: string[];
+  // Values the spec draws a line at, e.g. [18] for "age >= 18". The
+  // off-by-one-boundary detector only flags `<` / `>` against these.
+  boundaries?: number[];
+  tests?: LoopTests;
+  performance?: PerformanceBudget;
+  properties?: PropertySuite;
+};
+
+export class LoopValidationError extends Error {
+  issues: string[];
+
+  constructor(source: string, issues: string[]) {
+    super(`Invalid loop manifest (${source}):\n- ${issues.join('\n- ')}`);
+    this.name = 'LoopValidationError';
+    this.issues = issues;
+  }
+}
+
+type Json = Record<string, unknown>;
+
+// Manifests are parsed JSON: every field is checked before it is used
+function isObject(x: unknown): x is Json {
+  return !!x && typeof x === 'object' && !Array.isArray(x);
+}
+
+function isStringArray(x: unknown): x is string[] {
+  return Array.isArray(x) && x.every((v) => typeof v === 'string');
+}
+
+const isInteger = (x: unknown): x is number => Number.isInteger(x);
+
+const FILE_PATH = /^(?:[\w-]+\/)*[\w-]+\.\w+$/;
+
+function loopFilesIssues(o: Json, lang: LanguageInfo): string[] {
+  const files = o.files;
+  if (!Array.isArray(files) || !files.length) {
+    return ['"files" must be a non-empty array'];
+  }
+  if (o.starter != null || o.exports != null) {
+    return ['use either "files" or "starter" + "exports", not both'];
+  }
+
+  const issues: string[] = [];
+  const seen = new Set<unknown>();
+
+  files.forEach((f: unknown, i: number) => {
+    const at = `"files[${i}]"`;
+    if (!isObject(f)) {
+      issues.push(`${at} must be an object`);
+      return;
+    }
+    if (typeof f.path !== 'string' || !FILE_PATH.test(f.path)) {
+      issues.push(
+        `${at}.path must be a relative path like "lib/helpers${lang.extension}"`,
+      );
+    } else if (!f.path.endsWith(lang.extension)) {
+      issues.push(`${at}.path "${f.path}" must end in ${lang.extension}`);
+    } else if (lang.testFile.test(f.path.split('/').pop() ?? '')) {
+      issues.push(`${at}.path "${f.path}" looks like a test file`);
+    } else if (seen.has(f.path)) {
+      issues.push(`${at}.path "${f.path}" is listed twice`);
+    }
+    seen.add(f.path);
+
+    if (typeof f.starter !== 'string') {
+      issues.push(`${at}.starter must be a string`);
+    }
+    if (f.readOnly != null && typeof f.readOnly !== 'boolean') {
+      issues.push(`${at}.readOnly must be a boolean`);
+    }
+    if (f.exports != null && !isStringArray(f.exports)) {
+      issues.push(`${at}.exports must be an array of strings`);
+    }
+  });
+
+  if (files.every((f: unknown) => isObject(f) && f.readOnly === true)) {
+    issues.push('"files" needs at least one file learners can edit');
+  }
+
+  return issues;
+}
+
+const IDENTIFIER = /^[A-Za-z_$][\w$]*$/;
+
+function performanceIssues(o: Json, lang: LanguageInfo): string[] {
+  const p = o.performance;
+  if (!isObject(p)) {
+    return ['"performance" must be an object'];
+  }
+  const issues: string[] = [];
+
+  if (typeof p.call !== 'string' || !IDENTIFIER.test(p.call)) {
+    issues.push('"performance.call" must be the name of an exported function');
+  }
+  if (p.file != null) {
+    const paths = Array.isArray(o.files)
+      ? o.files.flatMap((f: unknown) =>
+          isObject(f) && !f.readOnly ? [f.path] : [],
+        )
+      : [];
+    if (typeof p.file !== 'string' || !paths.includes(p.file)) {
+      issues.push(
+        '"performance.file" must be one of the loop\'s editable "files"',
+      );
+    }
+  }
+  if (
+    typeof p.input !== 'string' ||
+    !FILE_PATH.test(p.input) ||
+    !p.input.endsWith(lang.extension)
+  ) {
+    issues.push(
+      `"performance.input" must be a ${lang.extension} file in the loop folder`,
+    );
+  } else if (lang.testFile.test(p.input.split('/').pop() ?? '')) {
+    issues.push(`"performance.input" "${p.input}" looks like a test file`);
+  }
+
+  const sizes = p.sizes;
+  if (
+    !Array.isArray(sizes) ||
+    !sizes.length ||
+    !sizes.every((n: unknown) => isInteger(n) && n > 0)
+  ) {
+    issues.push(
+      '"performance.sizes" must be a non-empty array of positive integers',
+    );
+  } else if (sizes.some((n: number, i: number) => i > 0 && n <= sizes[i - 1])) {
+    issues.push('"performance.sizes" must be increasing');
+  } else if (p.complexity != null && sizes.length < 3) {
+    issues.push('"performance.complexity" needs at least 3 sizes');
+  }
+
+  if (typeof p.maxMs !== 'number' || !(p.maxMs > 0)) {
+    issues.push('"performance.maxMs" must be a positive number');
+  }
+  if (p.complexity != null && !isComplexityClass(p.complexity)) {
+    issues.push(
+      `"performance.complexity" must be one of: ${COMPLEXITY_CLASSES.join(', ')}`,
+    );
+  }
+
+  return issues;
+}
+
+// Names the tests can import, from either manifest shape
+function manifestExports(o: Json): unknown[] {
+  if (Array.isArray(o.files)) {
+    return o.files.flatMap((f: unknown) =>
+      isObject(f) && Array.isArray(f.exports) ? f.exports : [],
+    );
+  }
+  return Array.isArray(o.exports) ? o.exports : [];
+}
+
+function exampleIssues(o: Json, ex: unknown, at: string): string[] {
+  if (!isObject(ex)) {
+    return [`${at} must be an object`];
+  }
+  const issues: string[] = [];
+
+  if (!('output' in ex)) issues.push(`${at}.output is required`);
+  if ('args' in ex && 'input' in ex) {
+    issues.push(`${at}: use either "args" or "input", not both`);
+  } else if ('args' in ex && !Array.isArray(ex.args)) {
+    issues.push(`${at}.args must be an array of arguments`);
+  } else if (!('args' in ex) && !('input' in ex)) {
+    issues.push(`${at} needs "args" (or "input" for a single argument)`);
+  }
+
+  const exported = manifestExports(o);
+  if (ex.call != null) {
+    if (typeof ex.call !== 'string' || !exported.includes(ex.call)) {
+      issues.push(`${at}.call must be one of the loop's exports`);
+    }
+  } else if (exported.length !== 1) {
+    issues.push(`${at}.call is required when the loop exports several names`);
+  }
+
+  return issues;
+}
+
+function propertiesIssues(o: Json, lang: LanguageInfo): string[] {
+  const p = o.properties;
+  if (!isObject(p)) {
+    return ['"properties" must be an object'];
+  }
+  const issues: string[] = [];
+
+  if (
+    typeof p.file !== 'string' ||
+    !FILE_PATH.test(p.file) ||
+    !p.file.endsWith(lang.extension)
+  ) {
+    issues.push(
+      `"properties.file" must be a ${lang.extension} file in the loop folder`,
+    );
+  } else if (lang.testFile.test(p.file.split('/').pop() ?? '')) {
+    issues.push(`"properties.file" "${p.file}" looks like a test file`);
+  }
+
+  const exported = manifestExports(o);
+  if (p.call != null) {
+    if (typeof p.call !== 'string' || !exported.includes(p.call)) {
+      issues.push('"properties.call" must be one of the loop\'s exports');
+    }
+  } else if (exported.length !== 1) {
+    issues.push(
+      '"properties.call" is required when the loop exports several names',
+    );
+  }
+
+  if (
+    p.runs != null &&
+    (!isInteger(p.runs) || p.runs < 1 || p.runs > MAX_PROPERTY_RUNS)
+  ) {
+    issues.push(
+      `"properties.runs" must be an integer from 1 to ${MAX_PROPERTY_RUNS}`,
+    );
+  }
+  if (p.seed != null && !isInteger(p.seed)) {
+    issues.push('"properties.seed" must be an integer');
+  }
+
+  return issues;
+}
+
+// Collect every problem instead of stopping at the first one: authors fix
+// manifests in one pass.
+export function loopManifestIssues(raw: unknown): string[] {
+  const issues: string[] = [];
+
+  if (!isObject(raw)) {
+    return ['manifest must be a JSON object'];
+  }
+  const o = raw;
+
+  const requireString = (key: string) => {
+    const value = o[key];
+    if (typeof value !== 'string' || !value.trim()) {
+      issues.push(`"${key}" is required and must be a non-empty string`);
+    }
+  };
+
+  requireString('id');
+  requireString('title');
+
+  if (o.language != null && !isLoopLanguage(o.language)) {
+    issues.push(`"language" must be one of: ${LOOP_LANGUAGES.join(', ')}`);
+  }
+  const language: LoopLanguage = isLoopLanguage(o.language)
+    ? o.language
+    : 'typescript';
+  const lang = LANGUAGES[language];
+
+  if (o.files == null) {
+    requireString('starter');
+    if (!isStringArray(o.exports) || !o.exports.length) {
+      issues.push('"exports" must be a non-empty array of strings');
+    }
+  } else {
+    issues.push(...loopFilesIssues(o, lang));
+  }
+
+  if (!isInteger(o.difficulty) || o.difficulty < 1) {
+    issues.push('"difficulty" must be an integer >= 1');
+  }
+  if (!isInteger(o.hintBudget) || o.hintBudget < 0) {
+    issues.push('"hintBudget" must be an integer >= 0');
+  }
+  if (!isStringArray(o.spec) || !o.spec.length) {
+    issues.push('"spec" must be a non-empty array of strings');
+  }
+
+  if (o.examples != null) {
+    if (!Array.isArray(o.examples)) {
+      issues.push('"examples" must be an array');
+    } else {
+      o.examples.forEach((ex: unknown, i: number) => {
+        issues.push(...exampleIssues(o, ex, `"examples[${i}]"`));
+      });
+    }
+  }
+
+  if (o.docs != null) {
+    if (!Array.isArray(o.docs)) {
+      issues.push('"docs" must be an array');
+    } else {
+      o.docs.forEach((d: unknown, i: number) => {
+        if (
+          !isObject(d) ||
+          typeof d.label !== 'string' ||
+          typeof d.url !== 'string'
+        ) {
+          issues.push(`"docs[${i}]" must be { label: string, url: string }`);
+        }
+      });
+    }
+  }
+
+  if (o.glitches != null && !isStringArray(o.glitches)) {
+    issues.push('"glitches" must be an array of strings');
+  } else if (
+    isStringArray(o.glitches) &&
+    o.glitches.length &&
+    o.files != null
+  ) {
+    issues.push('"glitches" are only supported by single-file loops');
+  }
+
+  if (
+    o.boundaries != null &&
+    (!Array.isArray(o.boundaries) ||
+      !o.boundaries.every((n: unknown) => Number.isFinite(n)))
+  ) {
+    issues.push('"boundaries" must be an array of numbers');
+  }
+
+  if (o.performance != null) {
+    issues.push(...performanceIssues(o, lang));
+  }
+
+  if (o.properties != null) {
+    issues.push(...propertiesIssues(o, lang));
+  }
+
+  const tests = o.tests;
+  if (tests != null) {
+    if (!isObject(tests)) {
+      issues.push('"tests" must be { public?: string[], hidden?: string[] }');
+    } else {
+      for (const key of ['public', 'hidden']) {
+        const files = tests[key];
+        if (files == null) continue;
+        if (!isStringArray(files)) {
+          issues.push(`"tests.${key}" must be an array of strings`);
+        } else {
+          for (const f of files.filter((f) => !lang.testFile.test(f))) {
+            issues.push(
+              `"tests.${key}": "${f}" must be a ${lang.testFilePattern} file name`,
+            );
+          }
+        }
+      }
+    }
+  }
+
+  return issues;
+}
+
+// Supports either { loop } or raw JSON. Throws LoopValidationError.
+export function parseLoopManifest(
+  raw: unknown,
+  source = 'loop.json',
+): LoopManifest {
+  const manifest = (isObject(raw) ? raw.loop : undefined) ?? raw;
+  const issues = loopManifestIssues(manifest);
+  if (issues.length) throw new LoopValidationError(source, issues);
+  return manifest as LoopManifest;
+}
+
+export function loopTestFiles(loop: LoopManifest) {
+  return {
+    public: loop.tests?.public ?? [LANGUAGES[loopLanguage(loop)].defaultTests],
+    hidden: loop.tests?.hidden ?? [],
+  };
+}
+
+// The learner's workspace files, for single- and multi-file loops alike.
+// The first editable file is the main one (glitch rounds, legacy `code`).
+export function loopFiles(loop: LoopManifest): LoopFile[] {
+  if (loop.files) return loop.files;
+  return [
+    {
+      path: LANGUAGES[loopLanguage(loop)].userFile,
+      starter: loop.starter ?? '',
+      exports: loop.exports ?? [],
+    },
+  ];
+}
+
+// Where the reference solution of each editable file lives in the loop
+// folder (server-only): the language's reference file for single-file loops,
+// reference/<path> for multi-file ones. Keyed by workspace path.
+export function loopReferenceFiles(loop: LoopManifest): Record<string, string> {
+  const lang = LANGUAGES[loopLanguage(loop)];
+  if (!loop.files) return { [lang.userFile]: lang.referenceFile };
+  return Object.fromEntries(
+    loop.files
+      .filter((f) => !f.readOnly)
+      .map((f) => [f.path, `reference/${f.path}`]),
+  );
+}
+
+// The editable file that exports the performance budget's function.
+export function perfTargetFile(loop: LoopManifest): string | null {
+  if (!loop.performance) return null;
+  const editable = loopFiles(loop).filter((f) => !f.readOnly);
+  return loop.performance.file ?? editable[0].path;
+}
+
+export function loopExports(loop: LoopManifest): string[] {
+  return loopFiles(loop).flatMap((f) => f.exports ?? []);
+}
+
+// The exported function `call` names (default: the loop's only export),
+// and the file that exports it.
+function exportTarget(loop: LoopManifest, call = loopExports(loop)[0]) {
+  const file = loopFiles(loop).find((f) => f.exports?.includes(call))!;
+  return { call, file: file.path };
+}
+
+// The exported function an example calls, and the file that exports it.
+export function exampleTarget(loop: LoopManifest, ex: LoopExample) {
+  return exportTarget(loop, ex.call);
+}
+
+// The exported function the property tests check, or null without any.
+export function propertyTarget(loop: LoopManifest) {
+  return loop.properties ? exportTarget(loop, loop.properties.call) : null;
+}
+
+export function exampleArgs(ex: LoopExample): unknown[] {
+  return ex.args ?? [ex.input];
+}
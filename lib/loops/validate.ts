@@ -0,0 +1,145 @@
+import { applyGlitch, isGlitchId } from '@/lib/glitches';
+import { missingExports } from '@/lib/loops/exports';
+import { LANGUAGES, loopLanguage } from '@/lib/loops/languages';
+import {
+  folderReader,
+  LoopNotFoundError,
+  parseCoachJson,
+  parseLoopJson,
+  type LoopFileReader,
+} from '@/lib/loops/load';
+import {
+  loopFiles,
+  loopReferenceFiles,
+  loopTestFiles,
+  LoopValidationError,
+  perfTargetFile,
+  type LoopManifest,
+} from '@/lib/loops/schema';
+
+// Everything an author can get wrong in loops/<id>/, as readable messages.
+export function validateLoopFolder(loopId: string): Promise<string[]> {
+  return validateLoop(loopId, folderReader(loopId));
+}
+
+// Same checks for any source of loop files (e.g. a studio draft).
+export async function validateLoop(
+  loopId: string,
+  read: LoopFileReader,
+): Promise<string[]> {
+  const issues: string[] = [];
+  const exists = async (file: string) => (await read(file)) != null;
+
+  let loop: LoopManifest;
+  try {
+    const raw = await read('loop.json');
+    if (raw == null) throw new LoopNotFoundError(loopId);
+    loop = parseLoopJson(raw, loopId);
+  } catch (e: unknown) {
+    if (e instanceof LoopValidationError) return e.issues;
+    return [(e as Error).message];
+  }
+
+  const language = loopLanguage(loop);
+  const files = loopFiles(loop);
+  for (const f of files) {
+    const missing = missingExports(f.starter, f.exports ?? [], language);
+    if (missing.length) {
+      const where = loop.files ? `"${f.path}" starter` : '"starter"';
+      issues.push(`${where} does not export: ${missing.join(', ')}`);
+    }
+  }
+
+  const testFiles = loopTestFiles(loop);
+  if (!testFiles.public.length) {
+    issues.push('"tests.public" must list at least one spec file');
+  }
+  for (const file of [...testFiles.public, ...testFiles.hidden]) {
+    if (!(await exists(file))) {
+      issues.push(`${file} is missing`);
+    }
+  }
+
+  // Server-only reference solution: glitch rounds and `npm run loops:verify`
+  for (const file of Object.values(loopReferenceFiles(loop))) {
+    if (!(await exists(file))) {
+      issues.push(`reference solution ${file} is missing`);
+    }
+  }
+
+  if (loop.glitches?.length) {
+    const referenceFile = LANGUAGES[language].referenceFile;
+    const reference = await read(referenceFile);
+
+    for (const g of loop.glitches) {
+      if (!isGlitchId(g)) {
+        issues.push(`unknown glitch "${g}"`);
+      } else if (reference != null && applyGlitch(g, reference) == null) {
+        issues.push(`glitch "${g}" does not change ${referenceFile}`);
+      }
+    }
+  }
+
+  if (loop.performance) {
+    const { call, input } = loop.performance;
+    if (!(await exists(input))) {
+      issues.push(`"performance.input" ${input} is missing`);
+    }
+    const target = files.find((f) => f.path === perfTargetFile(loop));
+    if (target?.exports?.length && !target.exports.includes(call)) {
+      issues.push(
+        `"performance.call" ${call} is not in the exports of ${target.path}`,
+      );
+    }
+  }
+
+  if (loop.properties && !(await exists(loop.properties.file))) {
+    issues.push(`"properties.file" ${loop.properties.file} is missing`);
+  }
+
+  try {
+    const raw = await read('coach.json');
+    const coach = raw == null ? null : parseCoachJson(raw, loopId);
+    const labels = (loop.docs ?? []).map((d) => d.label.toLowerCase());
+    const docRefs = [
+      coach?.doc,
+      ...(coach?.rules ?? []).flatMap((r) =>
+        Object.values(r.tiers).map((t) => t?.doc),
+      ),
+      ...Object.values(coach?.fallback ?? {}).map((t) => t?.doc),
+    ].filter((d): d is string => !!d);
+
+    const editable = files.filter((f) => !f.readOnly).map((f) => f.path);
+    for (const r of coach?.rules ?? []) {
+      if (r.when.file != null && !editable.includes(r.when.file)) {
+        issues.push(
+          `coach.json: rule "${r.id}" targets "${r.when.file}", which is not an editable file`,
+        );
+      }
+    }
+
+    // Detectors parse TypeScript; on other languages they never match
+    if (
+      language !== 'typescript' &&
+      coach?.rules.some((r) => r.when.detectors?.length)
+    ) {
+      issues.push(
+        `coach.json: "detectors" only work for TypeScript loops (this one is ${language})`,
+      );
+    }
+
+    for (const ref of new Set(docRefs)) {
+      if (!labels.some((l) => l.includes(ref.toLowerCase()))) {
+        issues.push(`coach.json: doc "${ref}" matches none of the loop's docs`);
+      }
+    }
+  } catch (e: unknown) {
+    if (e instanceof LoopValidationError) {
+      issues.push(...e.issues.map((i) => `coach.json: ${i}`));
+    } else {
+      issues.push((e as Error).message);
+    }
+  }
+
+  return issues;
+}
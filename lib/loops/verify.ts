@@ -0,0 +1,181 @@
+import { applyGlitch, glitchLabel, isGlitchId } from '@/lib/glitches';
+import { loopRunBundle } from '@/lib/loops/bundle';
+import { LANGUAGES, loopLanguage } from '@/lib/loops/languages';
+import {
+  folderReader,
+  parseLoopJson,
+  type LoopFileReader,
+} from '@/lib/loops/load';
+import { generateMutants } from '@/lib/loops/mutants';
+import {
+  loopFiles,
+  loopReferenceFiles,
+  type LoopManifest,
+} from '@/lib/loops/schema';
+import { validateLoop } from '@/lib/loops/validate';
+import { evaluatePerformance } from '@/lib/perf/estimate';
+import { isPerfHarnessTest } from '@/lib/perf/harness';
+import type { PerfResult } from '@/lib/perf/types';
+import type { Runner, UiTest } from '@/lib/runner/types';
+
+// Test-quality checks for a loop: the reference solution passes, the starter
+// doesn't, and every glitch and automatic mutant of the reference is caught
+// by at least one test.
+
+export type LoopRun = {
+  passed: boolean; // every test and the performance budget
+  tests: UiTest[]; // not redacted: for authors
+  stdout: string;
+  stderr: string;
+  performance: PerfResult | null;
+};
+
+export type MutantResult = {
+  kind: 'glitch' | 'operator' | 'dropped-return' | 'input-mutation';
+  file: string; // workspace path of the mutated file
+  label: string;
+  killedBy: string[]; // failing tests; empty = the mutant survived
+};
+
+export type LoopVerification = {
+  loopId: string;
+  issues: string[]; // validation problems or failed checks
+  skipped: string | null; // why nothing was run
+  mutants: MutantResult[];
+};
+
+// Runs the loop's tests (and performance budget) against `editable`.
+// Throws when a file the manifest names is missing.
+export async function runLoopFiles(
+  loop: LoopManifest,
+  editable: Record<string, string>,
+  read: LoopFileReader,
+  runner: Runner,
+): Promise<LoopRun> {
+  const built = await loopRunBundle(loop, editable, read);
+  if (!built.ok) throw new Error(built.error);
+
+  const result = await runner.run(built.bundle);
+  const tests = result.tests.filter((t) => !isPerfHarnessTest(t));
+  const performance = loop.performance
+    ? evaluatePerformance(loop.performance, result.perf)
+    : null;
+
+  return {
+    passed:
+      result.passed &&
+      tests.length > 0 &&
+      !tests.some((t) => t.state === 'fail') &&
+      (performance?.passed ?? true),
+    tests,
+    stdout: result.stdout,
+    stderr: result.stderr,
+    performance,
+  };
+}
+
+// The loop's reference solution, keyed by workspace path. Validation makes
+// sure every file exists.
+export async function loadReference(
+  loop: LoopManifest,
+  read: LoopFileReader,
+): Promise<Record<string, string>> {
+  const out: Record<string, string> = {};
+  for (const [path, file] of Object.entries(loopReferenceFiles(loop))) {
+    out[path] = (await read(file)) ?? '';
+  }
+  return out;
+}
+
+const failedNames = (run: LoopRun) =>
+  run.tests.filter((t) => t.state === 'fail').map((t) => t.name);
+
+export async function verifyLoop(
+  loopId: string,
+  runner: Runner,
+  read: LoopFileReader = folderReader(loopId),
+): Promise<LoopVerification> {
+  const issues = await validateLoop(loopId, read);
+  const report = (skipped: string | null, mutants: MutantResult[] = []) => ({
+    loopId,
+    issues,
+    skipped,
+    mutants,
+  });
+  if (issues.length) return report('the loop is not valid');
+
+  const loop = parseLoopJson((await read('loop.json'))!, loopId);
+  const language = loopLanguage(loop);
+  if (!runner.languages.includes(language)) {
+    return report(
+      `the ${runner.name} runner can't run ${LANGUAGES[language].label} loops`,
+    );
+  }
+
+  const files = loopFiles(loop).filter((f) => !f.readOnly);
+  const reference = await loadReference(loop, read);
+  const run = (editable: Record<string, string>) =>
+    runLoopFiles(loop, editable, read, runner);
+
+  const referenceRun = await run(reference);
+  if (!referenceRun.passed) {
+    const failed = failedNames(referenceRun);
+    issues.push(
+      failed.length
+        ? `the reference solution fails: ${failed.join('; ')}`
+        : 'the reference solution does not pass (no tests ran, a crash, or over the performance budget)',
+    );
+    // Mutants of a failing reference say nothing about the tests
+    return report(null);
+  }
+
+  const starterRun = await run(
+    Object.fromEntries(files.map((f) => [f.path, f.starter])),
+  );
+  if (starterRun.passed) {
+    issues.push('the starter already passes every test');
+  }
+
+  const mutants: MutantResult[] = [];
+  const tryMutant = async (
+    kind: MutantResult['kind'],
+    file: string,
+    label: string,
+    code: string,
+  ) => {
+    const mutantRun = await run({ ...reference, [file]: code });
+    mutants.push({
+      kind,
+      file,
+      label,
+      killedBy: mutantRun.passed ? [] : failedNames(mutantRun),
+    });
+    // A mutant can fail on a crash or the budget alone: still killed
+    if (!mutantRun.passed && !mutants.at(-1)!.killedBy.length) {
+      mutants.at(-1)!.killedBy.push('(run failed)');
+    }
+  };
+
+  // Glitch rounds break the main file; a surviving glitch can't be "fixed"
+  const main = files[0].path;
+  for (const g of loop.glitches ?? []) {
+    if (!isGlitchId(g)) continue;
+    const code = applyGlitch(g, reference[main]);
+    if (code != null) await tryMutant('glitch', main, glitchLabel(g), code);
+  }
+  for (const m of mutants.filter((m) => !m.killedBy.length)) {
+    issues.push(`glitch "${m.label}" survives: no test fails on it`);
+  }
+
+  for (const f of files) {
+    for (const m of generateMutants(
+      reference[f.path],
+      f.exports ?? [],
+      language,
+    )) {
+      await tryMutant(m.kind, f.path, m.label, m.code);
+    }
+  }
+
+  return report(null, mutants);
+}
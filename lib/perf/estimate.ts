@@ -0,0 +1,87 @@
+import {
+  COMPLEXITY,
+  COMPLEXITY_CLASSES,
+  type ComplexityClass,
+  type PerfCheck,
+  type PerfMeasurement,
+  type PerfResult,
+  type PerfSample,
+  type PerformanceBudget,
+} from '@/lib/perf/types';
+
+// Below this, timer resolution and JIT noise drown out the growth
+const MIN_SAMPLE_MS = 0.02;
+
+// A solution may grow this much faster than the expected class (noise)
+const EXPONENT_TOLERANCE = 0.45;
+
+// Least-squares slope of log(ms) over log(n): 1 for linear, 2 for quadratic.
+// Null when fewer than two sizes took long enough to measure.
+export function estimateExponent(samples: PerfSample[]): number | null {
+  const points = samples
+    .filter((s) => s.n > 0 && s.ms >= MIN_SAMPLE_MS)
+    .map((s) => [Math.log(s.n), Math.log(s.ms)] as const);
+  if (points.length < 2) return null;
+
+  const mx = points.reduce((a, [x]) => a + x, 0) / points.length;
+  const my = points.reduce((a, [, y]) => a + y, 0) / points.length;
+  let num = 0;
+  let den = 0;
+  for (const [x, y] of points) {
+    num += (x - mx) * (y - my);
+    den += (x - mx) ** 2;
+  }
+  return den ? num / den : null;
+}
+
+export function closestComplexity(exponent: number): ComplexityClass {
+  let best: ComplexityClass = 'constant';
+  for (const c of COMPLEXITY_CLASSES) {
+    const gap = Math.abs(COMPLEXITY[c].exponent - exponent);
+    if (gap < Math.abs(COMPLEXITY[best].exponent - exponent)) best = c;
+  }
+  return best;
+}
+
+// Turns the harness's raw timings into pass/fail checks for the budget.
+export function evaluatePerformance(
+  budget: PerformanceBudget,
+  measured: PerfMeasurement | null | undefined,
+): PerfResult {
+  const samples = measured?.samples ?? [];
+  const error =
+    measured?.error ??
+    (samples.length ? undefined : 'No performance measurements were reported');
+  if (error) return { passed: false, samples, checks: [], error };
+
+  // Stopping early means the largest size was already over budget
+  const checks: PerfCheck[] = [];
+  const last = samples[samples.length - 1];
+  checks.push({
+    kind: 'time',
+    passed: measured?.stoppedAt == null && last.ms <= budget.maxMs,
+    n: last.n,
+    limitMs: budget.maxMs,
+    measuredMs: last.ms,
+  });
+
+  if (budget.complexity) {
+    const exponent = estimateExponent(samples);
+    checks.push({
+      kind: 'complexity',
+      passed:
+        exponent == null ||
+        exponent <= COMPLEXITY[budget.complexity].exponent + EXPONENT_TOLERANCE,
+      expected: budget.complexity,
+      estimated: exponent == null ? null : closestComplexity(exponent),
+      exponent: exponent == null ? null : Math.round(exponent * 100) / 100,
+    });
+  }
+
+  return {
+    passed: checks.every((c) => c.passed),
+    samples,
+    checks,
+    ...(measured?.stoppedAt != null ? { stoppedAt: measured.stoppedAt } : {}),
+  };
+}
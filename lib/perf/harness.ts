@@ -0,0 +1,151 @@
+import type { LoopLanguage } from '@/lib/loops/languages';
+import type { PerformanceBudget } from '@/lib/perf/types';
+import type { UiTest } from '@/lib/runner/types';
+
+// The harness is an ordinary test file the server adds to the workspace, so
+// every runner backend runs it. It times `call` on each input size and
+// attaches the timings to its own test (Vitest `task.meta`, pytest
+// `record_property`); the reporter sends them as one {"type":"perf"}
+// message and the server judges them against the budget. Learner code can't
+// reach that test, and the clock is captured before the learner's module is
+// imported. It never fails on its own: correctness stays with the loop's
+// tests.
+export const PERF_HARNESS_FILES: Record<LoopLanguage, string> = {
+  typescript: 'tryloop-perf.spec.ts',
+  python: 'test_tryloop_perf.py',
+};
+
+// Stop measuring larger sizes once this much time is spent
+const CAP_MS = 3000;
+
+// Extra run time to allow for the harness (the cap plus one slow call)
+export const PERF_EXTRA_TIMEOUT_MS = CAP_MS * 2;
+
+// Each size is called repeatedly (fresh input each time) for this long,
+// so fast solutions are averaged over many calls
+const SAMPLE_WINDOW_MS = 30;
+const MAX_REPS = 50;
+
+export function isPerfHarnessTest(test: Pick<UiTest, 'file'>) {
+  const name = test.file?.split(/[\\/]/).pop()?.split('::')[0];
+  return Object.values(PERF_HARNESS_FILES).some((f) => f === name);
+}
+
+function stripExtension(file: string) {
+  return file.replace(/\.\w+$/, '');
+}
+
+function typescriptHarness(budget: PerformanceBudget, file: string) {
+  return `import { it } from 'vitest';
+import { makeInput } from './${stripExtension(budget.input)}';
+
+// Captured before the solution is imported (inside the test, below)
+const now = performance.now.bind(performance);
+
+const SIZES: number[] = ${JSON.stringify(budget.sizes)};
+const MAX_MS = ${budget.maxMs};
+
+function measure(target: unknown, n: number) {
+  if (typeof target !== 'function') {
+    throw new Error(${JSON.stringify(`${budget.call} is not exported`)});
+  }
+  let total = 0;
+  let reps = 0;
+  const start = now();
+  do {
+    const args = makeInput(n);
+    const t0 = now();
+    target(...args);
+    total += now() - t0;
+    reps++;
+  } while (reps < ${MAX_REPS} && now() - start < ${SAMPLE_WINDOW_MS});
+  return total / reps;
+}
+
+it('performance', async ({ task }) => {
+  const samples: { n: number; ms: number }[] = [];
+  let stoppedAt: number | undefined;
+  let error: string | undefined;
+  const started = now();
+  try {
+    const solution: any = await import('./${stripExtension(file)}');
+    const target = solution[${JSON.stringify(budget.call)}];
+    measure(target, SIZES[0]); // warm-up
+    for (let i = 0; i < SIZES.length; i++) {
+      samples.push({ n: SIZES[i], ms: measure(target, SIZES[i]) });
+      const next = SIZES[i + 1];
+      const over = samples[i].ms > MAX_MS || now() - started > ${CAP_MS};
+      if (next != null && over) {
+        stoppedAt = next;
+        break;
+      }
+    }
+  } catch (e) {
+    error = e instanceof Error ? \`\${e.name}: \${e.message}\` : String(e);
+  }
+  (task.meta as any).tryloopPerf = { samples, stoppedAt, error };
+}, ${CAP_MS * 4});
+`;
+}
+
+function pythonHarness(budget: PerformanceBudget, file: string) {
+  const moduleName = (f: string) => stripExtension(f).replace(/\//g, '.');
+  return `import importlib
+from time import perf_counter as _now  # before the solution is imported
+
+SIZES = ${JSON.stringify(budget.sizes)}
+MAX_MS = ${budget.maxMs}
+
+
+def _measure(target, make_input, n):
+    total = 0.0
+    reps = 0
+    start = _now()
+    while True:
+        args = make_input(n)
+        t0 = _now()
+        target(*args)
+        total += _now() - t0
+        reps += 1
+        if reps >= ${MAX_REPS} or _now() - start >= ${SAMPLE_WINDOW_MS / 1000}:
+            return total * 1000 / reps
+
+
+def test_performance(record_property):
+    samples = []
+    stopped_at = None
+    error = None
+    started = _now()
+    try:
+        target = getattr(importlib.import_module(${JSON.stringify(moduleName(file))}), ${JSON.stringify(budget.call)})
+        make_input = importlib.import_module(${JSON.stringify(moduleName(budget.input))}).make_input
+        _measure(target, make_input, SIZES[0])  # warm-up
+        for i, n in enumerate(SIZES):
+            samples.append({"n": n, "ms": _measure(target, make_input, n)})
+            over = samples[-1]["ms"] > MAX_MS or (_now() - started) * 1000 > ${CAP_MS}
+            if i + 1 < len(SIZES) and over:
+                stopped_at = SIZES[i + 1]
+                break
+    except Exception as e:
+        error = f"{type(e).__name__}: {e}"
+    perf = {"samples": samples}
+    if stopped_at is not None:
+        perf["stoppedAt"] = stopped_at
+    if error is not None:
+        perf["error"] = error
+    record_property("tryloop_perf", perf)
+`;
+}
+
+// Workspace file for the harness, timing `budget.call` exported from `file`.
+export function perfHarness(
+  budget: PerformanceBudget,
+  file: string,
+  language: LoopLanguage,
+): Record<string, string> {
+  const source =
+    language === 'python'
+      ? pythonHarness(budget, file)
+      : typescriptHarness(budget, file);
+  return { [PERF_HARNESS_FILES[language]]: source };
+}
@@ -0,0 +1,74 @@
+// Client-safe: performance budgets (loop.json) and what a run reports back.
+
+export const COMPLEXITY_CLASSES = [
+  'constant',
+  'logarithmic',
+  'linear',
+  'linearithmic',
+  'quadratic',
+  'cubic',
+] as const;
+
+export type ComplexityClass = (typeof COMPLEXITY_CLASSES)[number];
+
+// `exponent` is the log-log slope of time over input size that each class
+// shows across typical test sizes (n log n grows only a little faster than n).
+export const COMPLEXITY: Record<
+  ComplexityClass,
+  { label: string; exponent: number }
+> = {
+  constant: { label: 'O(1)', exponent: 0 },
+  logarithmic: { label: 'O(log n)', exponent: 0.1 },
+  linear: { label: 'O(n)', exponent: 1 },
+  linearithmic: { label: 'O(n log n)', exponent: 1.1 },
+  quadratic: { label: 'O(n²)', exponent: 2 },
+  cubic: { label: 'O(n³)', exponent: 3 },
+};
+
+export function isComplexityClass(x: unknown): x is ComplexityClass {
+  return (COMPLEXITY_CLASSES as readonly unknown[]).includes(x);
+}
+
+// loop.json "performance": time one exported function on generated inputs.
+export type PerformanceBudget = {
+  call: string; // exported function to time
+  file?: string; // editable file that exports it (default: the main file)
+  input: string; // module in the loop folder with makeInput(n) / make_input(n)
+  sizes: number[]; // increasing input sizes; the largest one is budgeted
+  maxMs: number; // wall time per call at the largest size
+  complexity?: ComplexityClass; // slowest growth that still passes
+};
+
+// One timed input size: average wall time per call, in milliseconds.
+export type PerfSample = { n: number; ms: number };
+
+// What the harness reports (see lib/perf/harness.ts).
+export type PerfMeasurement = {
+  samples: PerfSample[];
+  stoppedAt?: number; // size that hit the time cap; larger sizes were skipped
+  error?: string; // the function threw (or the input module is broken)
+};
+
+export type PerfCheck =
+  | {
+      kind: 'time';
+      passed: boolean;
+      n: number; // size the time was measured at
+      limitMs: number;
+      measuredMs: number;
+    }
+  | {
+      kind: 'complexity';
+      passed: boolean;
+      expected: ComplexityClass;
+      estimated: ComplexityClass | null; // null: too fast to tell
+      exponent: number | null;
+    };
+
+export type PerfResult = {
+  passed: boolean;
+  samples: PerfSample[];
+  checks: PerfCheck[];
+  stoppedAt?: number;
+  error?: string;
+};
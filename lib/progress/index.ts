@@ -0,0 +1,65 @@
+import { createJsonStore } from '@/lib/store/jsonStore';
+import type { LoopProgress, RunRecord } from '@/lib/progress/types';
+
+// Server-side learner progress: attempts, pass/fail history, first solve and
+// hints used, per learner and per loop.
+
+type ProgressData = Record<string, Record<string, LoopProgress>>; // learner → loop
+
+const HISTORY_LIMIT = 50;
+
+const store = createJsonStore<ProgressData>('progress', () => ({}));
+
+function emptyProgress(at: string): LoopProgress {
+  return {
+    attempts: 0,
+    passes: 0,
+    firstAttemptAt: at,
+    lastAttemptAt: at,
+    firstSolvedAt: null,
+    glitchesFixed: [],
+    hintsUsed: 0,
+    history: [],
+  };
+}
+
+export async function getProgress(
+  learnerId: string,
+): Promise<Record<string, LoopProgress>> {
+  const data = await store.read();
+  return data[learnerId] ?? {};
+}
+
+export function recordRun(
+  learnerId: string,
+  loopId: string,
+  run: Omit<RunRecord, 'at'>,
+): Promise<LoopProgress> {
+  return store.update((data) => {
+    const at = new Date().toISOString();
+    const loops = (data[learnerId] ??= {});
+    const p = (loops[loopId] ??= emptyProgress(at));
+
+    p.attempts += 1;
+    p.lastAttemptAt = at;
+    if (run.passed) {
+      p.passes += 1;
+      if (run.mode === 'normal') p.firstSolvedAt ??= at;
+      if (run.glitchId && !p.glitchesFixed.includes(run.glitchId)) {
+        p.glitchesFixed.push(run.glitchId);
+      }
+    }
+    p.history = [...p.history, { at, ...run }].slice(-HISTORY_LIMIT);
+
+    return p;
+  });
+}
+
+export function recordHintUsed(learnerId: string, loopId: string) {
+  return store.update((data) => {
+    const loops = (data[learnerId] ??= {});
+    const p = (loops[loopId] ??= emptyProgress(new Date().toISOString()));
+    p.hintsUsed += 1;
+    return p;
+  });
+}
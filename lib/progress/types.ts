@@ -0,0 +1,30 @@
+// Kept free of the store (node:fs) so client components can use these.
+
+export type RunRecord = {
+  at: string; // ISO time
+  passed: boolean;
+  mode: 'normal' | 'glitch';
+  glitchId: string | null;
+  testsPassed: number;
+  testsTotal: number;
+};
+
+export type LoopProgress = {
+  attempts: number;
+  passes: number;
+  firstAttemptAt: string;
+  lastAttemptAt: string;
+  firstSolvedAt: string | null; // first passing normal-mode run
+  glitchesFixed: string[];
+  hintsUsed: number;
+  history: RunRecord[]; // oldest first, capped
+};
+
+export type LoopStatus = 'solved' | 'attempted';
+
+export function loopStatus(
+  p: LoopProgress | null | undefined,
+): LoopStatus | null {
+  if (!p || p.attempts === 0) return null;
+  return p.firstSolvedAt ? 'solved' : 'attempted';
+}
@@ -0,0 +1,105 @@
+import { readFile } from 'node:fs/promises';
+import path from 'node:path';
+import type { LoopLanguage } from '@/lib/loops/languages';
+import {
+  DEFAULT_PROPERTY_RUNS,
+  DEFAULT_PROPERTY_SEED,
+  type PropertySuite,
+} from '@/lib/property/types';
+
+// Like the performance harness: the server adds a generated test file (one
+// test per property) plus the property library to the workspace, so every
+// runner backend runs them. A failing property's error carries the shrunk
+// counterexample.
+export const PROPERTY_HARNESS_FILES: Record<LoopLanguage, string> = {
+  typescript: 'tryloop-properties.spec.ts',
+  python: 'test_tryloop_properties.py',
+};
+
+// Workspace name of the library → its source under runner/
+const PROPERTY_LIBRARIES: Record<LoopLanguage, [string, string]> = {
+  typescript: ['tryloop-property.ts', 'tryloop-property.ts'],
+  python: ['tryloop_property.py', 'python/tryloop_property.py'],
+};
+
+// Per test, on top of the runner's default: shrinking takes many calls
+const TEST_TIMEOUT_MS = 5000;
+
+// Extra run time to allow for the property tests
+export const PROPERTY_EXTRA_TIMEOUT_MS = 4000;
+
+function stripExtension(file: string) {
+  return file.replace(/\.\w+$/, '');
+}
+
+function typescriptHarness(suite: PropertySuite, call: string, file: string) {
+  return `import { describe, it } from 'vitest';
+import * as solution from './${stripExtension(file)}';
+import * as spec from './${stripExtension(suite.file)}';
+import { checkProperty } from './tryloop-property';
+
+describe('properties', () => {
+  for (const [name, check] of Object.entries(spec.properties)) {
+    it(name, () => {
+      checkProperty({
+        call: ${JSON.stringify(call)},
+        fn: (solution as any)[${JSON.stringify(call)}],
+        args: spec.args as any,
+        check: check as any,
+        runs: ${suite.runs ?? DEFAULT_PROPERTY_RUNS},
+        seed: ${suite.seed ?? DEFAULT_PROPERTY_SEED},
+      });
+    }, ${TEST_TIMEOUT_MS});
+  }
+});
+`;
+}
+
+function pythonHarness(suite: PropertySuite, call: string, file: string) {
+  const moduleName = (f: string) => stripExtension(f).replace(/\//g, '.');
+  return `import importlib
+
+import pytest
+
+from tryloop_property import check_property
+
+spec = importlib.import_module(${JSON.stringify(moduleName(suite.file))})
+
+
+@pytest.mark.parametrize("name", list(spec.PROPERTIES), ids=str)
+def test_property(name):
+    __tracebackhide__ = True
+    solution = importlib.import_module(${JSON.stringify(moduleName(file))})
+    check_property(
+        ${JSON.stringify(call)},
+        getattr(solution, ${JSON.stringify(call)}, None),
+        spec.ARGS,
+        spec.PROPERTIES[name],
+        ${suite.runs ?? DEFAULT_PROPERTY_RUNS},
+        ${suite.seed ?? DEFAULT_PROPERTY_SEED},
+    )
+`;
+}
+
+// Workspace files for the property tests of `call`, exported from `file`:
+// the harness and the library.
+export async function propertyHarness(
+  suite: PropertySuite,
+  call: string,
+  file: string,
+  language: LoopLanguage,
+): Promise<Record<string, string>> {
+  const [libraryFile, source] = PROPERTY_LIBRARIES[language];
+  const library = await readFile(
+    path.join(process.cwd(), 'runner', source),
+    'utf8',
+  );
+  const harness =
+    language === 'python'
+      ? pythonHarness(suite, call, file)
+      : typescriptHarness(suite, call, file);
+  return {
+    [PROPERTY_HARNESS_FILES[language]]: harness,
+    [libraryFile]: library,
+  };
+}
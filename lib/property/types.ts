@@ -0,0 +1,16 @@
+// Client-safe: property-based tests declared in loop.json.
+
+// `file` is a module in the loop folder exporting the argument generator
+// and the named properties (`args` + `properties`, or `ARGS` + `PROPERTIES`
+// in Python), written with runner/tryloop-property.ts. Each property is
+// checked on `runs` inputs generated from `seed`, so runs are reproducible.
+export type PropertySuite = {
+  file: string;
+  call?: string; // exported function under test; default: the only export
+  runs?: number;
+  seed?: number;
+};
+
+export const DEFAULT_PROPERTY_RUNS = 100;
+export const MAX_PROPERTY_RUNS = 1000;
+export const DEFAULT_PROPERTY_SEED = 1;
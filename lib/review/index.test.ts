@@ -0,0 +1,82 @@
+import { mkdtemp, rm } from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import type { LoopProgress } from '@/lib/progress/types';
+
+// The stores read TRYLOOP_DATA_DIR at import time, so the modules under test
+// are imported after pointing it at a scratch directory.
+let dataDir: string;
+let review: typeof import('@/lib/review');
+let ledger: typeof import('@/lib/hints/ledger');
+
+beforeAll(async () => {
+  dataDir = await mkdtemp(path.join(os.tmpdir(), 'tryloop-review-'));
+  process.env.TRYLOOP_DATA_DIR = dataDir;
+  review = await import('@/lib/review');
+  ledger = await import('@/lib/hints/ledger');
+});
+
+afterAll(async () => {
+  await rm(dataDir, { recursive: true, force: true });
+});
+
+const loop = { id: 'loop-001', hintBudget: 3 };
+
+function progress(runs: number): LoopProgress {
+  const at = '2026-01-01T10:00:00.000Z';
+  return {
+    attempts: runs,
+    passes: 1,
+    firstAttemptAt: at,
+    lastAttemptAt: at,
+    firstSolvedAt: at,
+    glitchesFixed: [],
+    hintsUsed: 0,
+    history: Array.from({ length: runs }, (_, i) => ({
+      at,
+      passed: i === runs - 1,
+      mode: 'normal' as const,
+      glitchId: null,
+      testsPassed: 0,
+      testsTotal: 1,
+    })),
+  };
+}
+
+describe('startReview', () => {
+  it('keeps an open session when started again', async () => {
+    const solvedAt = new Date('2026-01-01T10:00:00Z');
+    const card = await review.recordReviewRun(
+      'learner',
+      loop,
+      { passed: true, mode: 'normal' },
+      progress(1),
+      solvedAt,
+    );
+    expect(card).not.toBeNull();
+
+    const due = new Date(`${card!.due}T09:00:00Z`);
+    const first = await review.startReview('learner', loop, due);
+    expect(first.ok).toBe(true);
+
+    await ledger.spendHint('learner', loop);
+    await review.recordReviewRun(
+      'learner',
+      loop,
+      { passed: false, mode: 'normal' },
+      progress(1),
+      due,
+    );
+
+    const reload = new Date(due.getTime() + 60_000);
+    const second = await review.startReview('learner', loop, reload);
+    expect(second.ok && second.card.session).toEqual({
+      startedAt: due.toISOString(),
+      runs: 1,
+    });
+
+    const balance = await ledger.getHintBalance('learner', loop);
+    expect(balance).toMatchObject({ hintsLeft: 2, tierUsed: 1 });
+  });
+});
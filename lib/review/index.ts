@@ -0,0 +1,94 @@
+import { getHintBalance, resetHints } from '@/lib/hints/ledger';
+import type { LoopProgress } from '@/lib/progress/types';
+import {
+  dayOf,
+  isDue,
+  scheduleReview,
+  type ReviewCard,
+} from '@/lib/review/sm2';
+import { createJsonStore } from '@/lib/store/jsonStore';
+
+// Server-side review queue: a card per solved loop, per learner. The first
+// normal-mode solve schedules the first review; a review is a fresh solve
+// from the starter (started explicitly), graded by its runs and hint tier.
+
+type ReviewData = Record<string, Record<string, ReviewCard>>; // learner → loop
+
+type ReviewLoop = { id: string; hintBudget: number };
+
+export type StartReviewResult =
+  { ok: true; card: ReviewCard } | { ok: false; error: string };
+
+const store = createJsonStore<ReviewData>('reviews', () => ({}));
+
+export async function getReviewCards(
+  learnerId: string,
+): Promise<Record<string, ReviewCard>> {
+  const data = await store.read();
+  return data[learnerId] ?? {};
+}
+
+// Opens a review session for a due card. Hints refill: the review is graded
+// on the hint tier it reaches itself. A session that is already open is kept
+// as it is (the review page calls this on every load), so reloading neither
+// forgets failed runs nor refills hints.
+export async function startReview(
+  learnerId: string,
+  loop: ReviewLoop,
+  now = new Date(),
+): Promise<StartReviewResult> {
+  let started = false;
+  const result = await store.update((data): StartReviewResult => {
+    const card = data[learnerId]?.[loop.id];
+    if (!card) return { ok: false, error: 'Solve this loop first' };
+    if (!isDue(card, dayOf(now))) {
+      return { ok: false, error: `Not due for review until ${card.due}` };
+    }
+    if (!card.session) {
+      card.session = { startedAt: now.toISOString(), runs: 0 };
+      started = true;
+    }
+    return { ok: true, card };
+  });
+  if (started) await resetHints(learnerId, loop);
+  return result;
+}
+
+// Called for every saved run. Counts runs of an open review and schedules
+// the next review when it passes; a first solve creates the card.
+export async function recordReviewRun(
+  learnerId: string,
+  loop: ReviewLoop,
+  run: { passed: boolean; mode: 'normal' | 'glitch' },
+  progress: LoopProgress,
+  now = new Date(),
+): Promise<ReviewCard | null> {
+  if (run.mode !== 'normal') return null;
+  const { tierUsed } = await getHintBalance(learnerId, loop);
+
+  return store.update((data) => {
+    const cards = (data[learnerId] ??= {});
+    const card = cards[loop.id];
+
+    if (!card) {
+      if (!run.passed) return null;
+      const runs = progress.history.filter((r) => r.mode === 'normal').length;
+      return (cards[loop.id] = scheduleReview(
+        null,
+        loop.id,
+        { runs, hintTier: tierUsed },
+        now,
+      ));
+    }
+
+    if (!card.session) return null;
+    card.session.runs += 1;
+    if (!run.passed) return card;
+    return (cards[loop.id] = scheduleReview(
+      card,
+      loop.id,
+      { runs: card.session.runs, hintTier: tierUsed },
+      now,
+    ));
+  });
+}
@@ -0,0 +1,110 @@
+// Client-safe: SM-2 style review scheduling for solved loops.
+
+// SM-2's 0..5 recall grade, here derived from how the learner solved the
+// loop: 5 = first run, no hints. Below 3 the streak starts over.
+export type ReviewQuality = 0 | 1 | 2 | 3 | 4 | 5;
+
+export type ReviewRecord = {
+  at: string; // ISO time
+  quality: ReviewQuality;
+  runs: number;
+  hintTier: number;
+  intervalDays: number; // until the next review
+};
+
+export type ReviewCard = {
+  loopId: string;
+  repetitions: number; // successful solves in a row (SM-2 n)
+  easiness: number; // SM-2 EF, >= 1.3
+  intervalDays: number;
+  due: string; // YYYY-MM-DD (UTC)
+  history: ReviewRecord[]; // oldest first, capped; the first is the solve
+  session: { startedAt: string; runs: number } | null; // review in progress
+};
+
+// A card with its loop's title, as GET /api/reviews lists them
+export type ReviewEntry = ReviewCard & { title: string };
+
+export const INITIAL_EASINESS = 2.5;
+const MIN_EASINESS = 1.3;
+const HISTORY_LIMIT = 20;
+
+// Each extra run and each hint tier costs a grade
+export function solveQuality(solve: {
+  runs: number;
+  hintTier: number;
+}): ReviewQuality {
+  const { runs, hintTier } = solve;
+  const runPenalty = runs <= 1 ? 0 : runs <= 3 ? 1 : runs <= 6 ? 2 : 3;
+  return Math.max(0, Math.min(5, 5 - runPenalty - hintTier)) as ReviewQuality;
+}
+
+export function dayOf(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+export function addDays(day: string, days: number): string {
+  const date = new Date(`${day}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return dayOf(date);
+}
+
+export function isDue(card: ReviewCard, today: string): boolean {
+  return card.due <= today;
+}
+
+// SM-2, except that the first two intervals (1 and 6 days in SM-2) also
+// stretch with quality, so a clean solve waits longer from the start.
+export function scheduleReview(
+  card: ReviewCard | null,
+  loopId: string,
+  solve: { runs: number; hintTier: number },
+  now: Date,
+): ReviewCard {
+  const quality = solveQuality(solve);
+  const prev = card ?? {
+    loopId,
+    repetitions: 0,
+    easiness: INITIAL_EASINESS,
+    intervalDays: 0,
+    history: [],
+  };
+
+  const easiness = Math.max(
+    MIN_EASINESS,
+    prev.easiness + 0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02),
+  );
+  const stretch = 1 + (quality - 3) / 2;
+
+  let repetitions: number;
+  let intervalDays: number;
+  if (quality < 3) {
+    repetitions = 0;
+    intervalDays = 1;
+  } else {
+    repetitions = prev.repetitions + 1;
+    intervalDays =
+      repetitions === 1
+        ? Math.round(1 * stretch)
+        : repetitions === 2
+          ? Math.round(6 * stretch)
+          : Math.round(prev.intervalDays * easiness);
+  }
+
+  const record: ReviewRecord = {
+    at: now.toISOString(),
+    quality,
+    runs: solve.runs,
+    hintTier: solve.hintTier,
+    intervalDays,
+  };
+  return {
+    loopId,
+    repetitions,
+    easiness: Math.round(easiness * 100) / 100,
+    intervalDays,
+    due: addDays(dayOf(now), intervalDays),
+    history: [...prev.history, record].slice(-HISTORY_LIMIT),
+    session: null,
+  };
+}
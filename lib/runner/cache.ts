@@ -0,0 +1,143 @@
+import { createHash } from 'node:crypto';
+import { readFileSync } from 'node:fs';
+import path from 'node:path';
+import { isPerfHarnessTest } from '@/lib/perf/harness';
+import type { RunBundle, RunOutcome, Runner } from '@/lib/runner/types';
+
+// Content-addressed cache of finished runs. The key covers everything that
+// decides the result: the runner (and its version), the language, and every
+// workspace file (learner code, fixtures, tests). Identical submissions
+// (re-runs, classroom demos of the starter) are served without a run.
+
+export type RunCacheStats = {
+  entries: number;
+  maxEntries: number;
+  hits: number;
+  misses: number;
+  evictions: number;
+};
+
+type Entry = { loopId: string; outcome: RunOutcome };
+
+// Results bigger than this (huge stdout) aren't worth keeping
+const MAX_ENTRY_BYTES = 256 * 1024;
+
+// Line endings and trailing whitespace at the end of a file never change
+// the result, so they don't change the key either.
+export function normalizeSource(code: string) {
+  return code.replace(/\r\n?/g, '\n').trimEnd();
+}
+
+export function runCacheKey(runner: Runner, bundle: RunBundle): string {
+  const hash = createHash('sha256');
+  const part = (s: string) => hash.update(`${s.length}:${s}`);
+
+  part(runner.version());
+  part(bundle.language ?? 'typescript');
+  part([...(bundle.hiddenFiles ?? [])].sort().join('\n'));
+  for (const path of Object.keys(bundle.files).sort()) {
+    part(path);
+    part(normalizeSource(bundle.files[path]));
+  }
+  return hash.digest('hex');
+}
+
+// Matches per-test timeouts (local sandbox and Vitest)
+const TIMED_OUT = /timed out/i;
+
+// Only complete results that don't depend on timing are cached: a timeout or
+// crash (no report) may pass on the next try, and so may a performance
+// budget or a test that timed out on a busy machine.
+function isCacheable(outcome: RunOutcome) {
+  return (
+    outcome.report != null &&
+    outcome.perf == null &&
+    !outcome.tests.some(
+      (t) => isPerfHarnessTest(t) || (!!t.error && TIMED_OUT.test(t.error)),
+    )
+  );
+}
+
+export function createRunCache(maxEntries: number) {
+  const entries = new Map<string, Entry>(); // insertion order = LRU order
+  const counters = { hits: 0, misses: 0, evictions: 0 };
+
+  const get = (key: string): RunOutcome | null => {
+    const entry = entries.get(key);
+    if (!entry) {
+      counters.misses++;
+      return null;
+    }
+    // Move to the back: most recently used
+    entries.delete(key);
+    entries.set(key, entry);
+    counters.hits++;
+    return entry.outcome;
+  };
+
+  const set = (key: string, loopId: string, outcome: RunOutcome) => {
+    if (!maxEntries || !isCacheable(outcome)) return;
+    if (JSON.stringify(outcome).length > MAX_ENTRY_BYTES) return;
+
+    entries.delete(key);
+    entries.set(key, { loopId, outcome });
+    while (entries.size > maxEntries) {
+      entries.delete(entries.keys().next().value!);
+      counters.evictions++;
+    }
+  };
+
+  // Drops every result of a loop (call it when the loop's tests change);
+  // returns how many were removed.
+  const invalidateLoop = (loopId: string) => {
+    let removed = 0;
+    for (const [key, entry] of entries) {
+      if (entry.loopId !== loopId) continue;
+      entries.delete(key);
+      removed++;
+    }
+    return removed;
+  };
+
+  const clear = () => entries.clear();
+
+  const stats = (): RunCacheStats => ({
+    entries: entries.size,
+    maxEntries,
+    ...counters,
+  });
+
+  return { get, set, invalidateLoop, clear, stats };
+}
+
+export type RunCache = ReturnType<typeof createRunCache>;
+
+// Route handlers can be bundled separately, so keep one cache per process.
+const globalCache = globalThis as unknown as { __tryloopRunCache?: RunCache };
+
+// TRYLOOP_RUN_CACHE_SIZE: results kept (default 500; 0 turns caching off)
+export function getRunCache(): RunCache {
+  const size = Number(process.env.TRYLOOP_RUN_CACHE_SIZE ?? 500);
+  return (globalCache.__tryloopRunCache ??= createRunCache(
+    Number.isInteger(size) && size >= 0 ? size : 500,
+  ));
+}
+
+// Invalidation hook for loop authoring: forget a loop's cached results.
+export function invalidateLoop(loopId: string) {
+  return getRunCache().invalidateLoop(loopId);
+}
+
+// Short content hash of files in runner/ (sandbox, reporters), for
+// Runner.version(): editing them invalidates cached results.
+export function runnerSourceVersion(...files: string[]) {
+  const hash = createHash('sha256');
+  for (const file of files) {
+    try {
+      hash.update(readFileSync(path.join(process.cwd(), 'runner', file)));
+    } catch {
+      hash.update(`missing:${file}`);
+    }
+  }
+  return hash.digest('hex').slice(0, 12);
+}
@@ -0,0 +1,58 @@
+import { readdir, readFile, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { describe, expect, it, vi } from 'vitest';
+import { dockerRunner } from '@/lib/runner/docker';
+
+// Stands in for the container: every spec in the mounted workspace gets one
+// test, and the learner's code fails each of them with whatever it can read
+// of the hidden spec.
+vi.mock('@/lib/runner/process', () => ({
+  runCmd: vi.fn(async (_cmd: string, args: string[]) => {
+    const mount = args[args.indexOf('-v') + 1];
+    const dir = mount.slice(0, mount.lastIndexOf(':/work'));
+    const names = await readdir(dir);
+
+    const leaked = names.includes('hidden.spec.ts')
+      ? await readFile(path.join(dir, 'hidden.spec.ts'), 'utf8')
+      : '';
+    const testResults = names
+      .filter((name) => name.endsWith('.spec.ts'))
+      .map((name) => ({
+        name,
+        assertionResults: [
+          {
+            title: name,
+            fullName: name,
+            status: 'failed',
+            failureMessages: [`Error: ${leaked}`],
+          },
+        ],
+      }));
+    await writeFile(
+      path.join(dir, 'report.json'),
+      JSON.stringify({ success: false, testResults }),
+    );
+    return { exitCode: 1, stdout: '', stderr: '' };
+  }),
+}));
+
+const SECRET = 'expect(filterAdults(hiddenInput)).toEqual(hiddenAnswer)';
+
+describe('docker runner', () => {
+  it("runs hidden specs where the public tests' code can't read them", async () => {
+    const result = await dockerRunner.run({
+      files: {
+        'user-code.ts': 'export const filterAdults = () => [];\n',
+        'tests.spec.ts': '// public\n',
+        'hidden.spec.ts': SECRET,
+      },
+      hiddenFiles: ['hidden.spec.ts'],
+    });
+
+    const visible = result.tests.filter((t) => t.visibility === 'public');
+    const hidden = result.tests.filter((t) => t.visibility === 'hidden');
+    expect(visible.map((t) => t.file)).toEqual(['tests.spec.ts']);
+    expect(visible[0].error).not.toContain(SECRET);
+    expect(hidden.map((t) => t.file)).toEqual(['hidden.spec.ts']);
+  });
+});
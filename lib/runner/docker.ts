@@ -0,0 +1,155 @@
+import { randomBytes } from 'node:crypto';
+import path from 'node:path';
+import { LANGUAGES, type LoopLanguage } from '@/lib/loops/languages';
+import { runnerSourceVersion } from '@/lib/runner/cache';
+import { createReporterParser } from '@/lib/runner/events';
+import {
+  normalizePytestReport,
+  normalizeVitestReport,
+} from '@/lib/runner/normalize';
+import { runCmd } from '@/lib/runner/process';
+import { readJsonReport, withWorkspace } from '@/lib/runner/workspace';
+import type { RunEvent, RunOutcome, Runner, UiTest } from '@/lib/runner/types';
+
+// One image per loop language; both stream the same JSON lines and write report.json.
+type Toolchain = {
+  image: string;
+  files: Record<string, string>; // extra workspace files (config)
+  command: string;
+  normalize: (report: unknown, opts: { hiddenFiles?: string[] }) => UiTest[];
+};
+
+const TOOLCHAINS: Record<LoopLanguage, Toolchain> = {
+  // Vitest inside the tryloop-runner image (see runner/Dockerfile)
+  typescript: {
+    image: process.env.TRYLOOP_DOCKER_IMAGE ?? 'tryloop-runner',
+    files: {
+      // Vitest JSON report + streamed JSON lines (reporter baked into the image)
+      'vitest.config.ts': `export default { test: { reporters: ["json", "/opt/tryloop/reporter.mjs"], outputFile: { json: "report.json" } } }`,
+      // Helps some environments treat ESM consistently
+      'package.json': JSON.stringify({ type: 'module' }),
+    },
+    command: 'vitest run --config vitest.config.ts',
+    normalize: normalizeVitestReport,
+  },
+  // pytest inside the tryloop-runner-python image (see runner/python/Dockerfile)
+  python: {
+    image: process.env.TRYLOOP_PYTHON_IMAGE ?? 'tryloop-runner-python',
+    files: {},
+    command: 'python -m pytest -q -p tryloop_pytest -p no:cacheprovider',
+    normalize: normalizePytestReport,
+  },
+};
+
+// The workspaces a run needs. Learner code can read its whole workspace
+// (it's an ordinary process in the container) and public failure messages
+// are shown in full, so hidden specs never share a workspace with public
+// ones: they run in a second step whose results are only shown redacted.
+// Steps without any test file are left out.
+function runSteps(
+  files: Record<string, string>,
+  hiddenFiles: string[],
+  language: LoopLanguage,
+): Record<string, string>[] {
+  if (!hiddenFiles.length) return [files];
+
+  const isTest = (p: string) =>
+    LANGUAGES[language].testFile.test(path.posix.basename(p));
+  const hidden = new Set(hiddenFiles);
+  const step = (tests: (p: string) => boolean) =>
+    Object.fromEntries(
+      Object.entries(files).filter(([p]) => !isTest(p) || tests(p)),
+    );
+  const steps = [step((p) => !hidden.has(p)), step((p) => hidden.has(p))];
+  const withTests = steps.filter((s) => Object.keys(s).some(isTest));
+  return withTests.length ? withTests : [files];
+}
+
+function runStep(
+  toolchain: Toolchain,
+  files: Record<string, string>,
+  hiddenFiles: string[],
+  timeoutMs: number,
+  onEvent?: (event: RunEvent) => void,
+): Promise<RunOutcome> {
+  return withWorkspace({ ...files, ...toolchain.files }, async (dir) => {
+    // Reporter lines must carry it; see createReporterParser
+    const nonce = randomBytes(16).toString('hex');
+    const parser = createReporterParser(onEvent, hiddenFiles, nonce);
+
+    const result = await runCmd(
+      'docker',
+      [
+        'run',
+        '-i',
+        '--rm',
+        '--network=none',
+        '--cpus=1',
+        '--memory=256m',
+        '-v',
+        `${dir}:/work`,
+        '-w',
+        '/work',
+        toolchain.image,
+        'sh',
+        '-lc',
+        toolchain.command,
+      ],
+      timeoutMs,
+      { onStdout: parser.push, stdin: `${nonce}\n` },
+    );
+
+    const report = await readJsonReport(dir, 'report.json');
+
+    return {
+      passed: result.exitCode === 0,
+      stdout: parser.finish(),
+      stderr: result.stderr,
+      tests: toolchain.normalize(report, { hiddenFiles }),
+      report,
+      perf: parser.perf(),
+    };
+  });
+}
+
+export const dockerRunner: Runner = {
+  name: 'docker',
+  version: () =>
+    [
+      'docker',
+      TOOLCHAINS.typescript.image,
+      TOOLCHAINS.python.image,
+      runnerSourceVersion(
+        'Dockerfile',
+        'tryloop-reporter.mjs',
+        'python/Dockerfile',
+        'python/tryloop_pytest.py',
+      ),
+    ].join(':'),
+  languages: ['typescript', 'python'],
+  run: async (
+    { files, hiddenFiles = [], timeoutMs = 8000, language = 'typescript' },
+    onEvent,
+  ) => {
+    const toolchain = TOOLCHAINS[language];
+    onEvent?.({ type: 'starting', runner: 'docker' });
+
+    const results: RunOutcome[] = [];
+    for (const step of runSteps(files, hiddenFiles, language)) {
+      results.push(
+        await runStep(toolchain, step, hiddenFiles, timeoutMs, onEvent),
+      );
+    }
+
+    return {
+      passed: results.every((r) => r.passed),
+      stdout: results.map((r) => r.stdout).join(''),
+      stderr: results.map((r) => r.stderr).join(''),
+      tests: results.flatMap((r) => r.tests),
+      report:
+        results.length === 1 ? results[0].report : results.map((r) => r.report),
+      // The harness is a public spec, so it runs in the first step
+      perf: results[0].perf,
+    };
+  },
+};
@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { createReporterParser } from '@/lib/runner/events';
+import type { RunEvent } from '@/lib/runner/types';
+
+const line = (msg: object) => `${JSON.stringify(msg)}\n`;
+
+describe('reporter parser', () => {
+  it("leaves stdout lines without the run's nonce as output", () => {
+    const events: RunEvent[] = [];
+    const parser = createReporterParser((e) => events.push(e), [], 'n0nce');
+
+    // What learner code can print: the tag, but not the nonce
+    const forged = line({ tryloop: 1, type: 'perf', samples: [] });
+    const guessed = line({ tryloop: 1, nonce: 'guess', type: 'run-start' });
+    parser.push(forged + guessed);
+    parser.push(line({ tryloop: 1, nonce: 'n0nce', type: 'run-start' }));
+
+    expect(events).toEqual([{ type: 'started' }]);
+    expect(parser.perf()).toBeUndefined();
+    expect(parser.finish()).toBe(forged + guessed);
+  });
+
+  it("takes the harness's timings, not ones learner code prints", () => {
+    const parser = createReporterParser(undefined, [], 'n0nce');
+    const samples = [{ n: 1000, ms: 0.1 }];
+
+    // A fake record before the real one used to void the measurement
+    parser.push(line({ tryloop: 1, type: 'perf', samples: [] }));
+    parser.push(line({ tryloop: 1, nonce: 'n0nce', type: 'perf', samples }));
+
+    expect(parser.perf()).toEqual({ samples });
+  });
+
+  it('takes no stdout messages without a nonce', () => {
+    const events: RunEvent[] = [];
+    const parser = createReporterParser((e) => events.push(e));
+
+    parser.push(line({ tryloop: 1, type: 'run-start' }));
+    parser.message({ tryloop: 1, type: 'run-start' });
+
+    expect(events).toEqual([{ type: 'started' }]);
+  });
+});
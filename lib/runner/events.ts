@@ -0,0 +1,100 @@
+import type { PerfMeasurement, PerfSample } from '@/lib/perf/types';
+import type { RunEvent, UiTest } from '@/lib/runner/types';
+import { tagVisibility } from '@/lib/runner/visibility';
+
+type ReporterMessage = Record<string, unknown>;
+
+const isMessage = (msg: unknown): msg is ReporterMessage =>
+  !!msg && typeof msg === 'object' && (msg as ReporterMessage).tryloop === 1;
+
+// Turns reporter messages into run events. Docker runs mix them into stdout
+// as JSON lines (runner/tryloop-reporter.mjs, tryloop_pytest.py), which
+// `push` splits from everything else; the local sandbox sends them over an
+// IPC channel instead, straight to `message`.
+//
+// Learner code writes to the same stdout, so stdout lines only count when
+// they carry `nonce`: a per-run secret the reporter reads from stdin before
+// any learner code runs. Without a nonce, `push` takes no messages at all.
+export function createReporterParser(
+  onEvent?: (event: RunEvent) => void,
+  hiddenFiles: string[] = [],
+  nonce?: string,
+) {
+  const marker =
+    nonce === undefined
+      ? undefined
+      : `{"tryloop":1,"nonce":${JSON.stringify(nonce)},`;
+  let pending = '';
+  let plain = '';
+  let perf: PerfMeasurement | undefined;
+
+  const handleMessage = (msg: unknown) => {
+    if (!isMessage(msg)) return;
+    if (msg.type === 'run-start') onEvent?.({ type: 'started' });
+    if (msg.type === 'test' && msg.test && typeof msg.test === 'object') {
+      const suites = Array.isArray(msg.suites) ? msg.suites : [];
+      onEvent?.({
+        type: 'test',
+        test: tagVisibility(
+          msg.test as UiTest,
+          hiddenFiles,
+          typeof suites[0] === 'string' ? suites[0] : undefined,
+        ),
+      });
+    }
+    // The harness reports exactly once; a second record means something
+    // else is posing as it, so the measurement is void
+    if (msg.type === 'perf') {
+      perf = perf
+        ? { samples: [], error: 'The run reported more than one measurement' }
+        : {
+            samples: Array.isArray(msg.samples)
+              ? (msg.samples as PerfSample[])
+              : [],
+            stoppedAt:
+              typeof msg.stoppedAt === 'number' ? msg.stoppedAt : undefined,
+            error: typeof msg.error === 'string' ? msg.error : undefined,
+          };
+    }
+  };
+
+  const handleLine = (raw: string) => {
+    // pytest prints progress dots on the same line, before the event
+    const at = marker ? raw.indexOf(marker) : -1;
+    if (at < 0) {
+      plain += `${raw}\n`;
+      return;
+    }
+    plain += raw.slice(0, at);
+    const line = raw.slice(at);
+
+    let msg: unknown;
+    try {
+      msg = JSON.parse(line);
+    } catch {
+      plain += `${line}\n`;
+      return;
+    }
+    handleMessage(msg);
+  };
+
+  return {
+    push(chunk: string) {
+      pending += chunk;
+      const lines = pending.split('\n');
+      pending = lines.pop() ?? '';
+      lines.forEach(handleLine);
+    },
+    message: handleMessage,
+    // Flush the last partial line; returns stdout without reporter lines
+    finish() {
+      if (pending) handleLine(pending);
+      pending = '';
+      return plain;
+    },
+    // Timings from the performance harness (lib/perf/harness.ts)
+    perf() {
+      return perf;
+    },
+  };
+}
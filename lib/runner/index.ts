@@ -0,0 +1,30 @@
+import { dockerRunner } from '@/lib/runner/docker';
+import { localRunner } from '@/lib/runner/local';
+import { poolRunner } from '@/lib/runner/warm';
+import type { Runner, RunnerName } from '@/lib/runner/types';
+
+const RUNNERS: Record<RunnerName, Runner> = {
+  docker: dockerRunner,
+  local: localRunner,
+  pool: poolRunner,
+};
+
+// TRYLOOP_RUNNER=docker|local|pool (default: docker)
+export function getRunner(name = process.env.TRYLOOP_RUNNER): Runner {
+  if (!name) return dockerRunner;
+  const runner = RUNNERS[name as RunnerName];
+  if (!runner) {
+    throw new Error(
+      `[TryLoop] Unknown TRYLOOP_RUNNER "${name}" (expected: ${Object.keys(RUNNERS).join(', ')})`,
+    );
+  }
+  return runner;
+}
+
+export type {
+  Runner,
+  RunBundle,
+  RunEvent,
+  RunOutcome,
+  UiTest,
+} from '@/lib/runner/types';
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { localRunner } from '@/lib/runner/local';
+
+const SPEC = `import { it, expect } from 'vitest';
+import { add } from './user-code';
+
+it('adds', () => {
+  expect(add(1, 2)).toBe(3);
+});
+`;
+
+describe('local sandbox', () => {
+  it("keeps learner code away from the reporter's state", async () => {
+    // module.constructor used to be the host's Object; patching the host's
+    // Array.prototype.push dropped the failure from the report
+    const userCode = `const O: any = (module as any).constructor;
+O.keys({}).constructor.prototype.push = () => 0;
+export function add(a: number, b: number) {
+  return a - b;
+}
+`;
+    const result = await localRunner.run({
+      files: { 'user-code.ts': userCode, 'tests.spec.ts': SPEC },
+    });
+    expect(result.passed).toBe(false);
+    expect(result.tests).toMatchObject([{ name: 'adds', state: 'fail' }]);
+  });
+
+  it('records a failed assertion even when learner code catches it', async () => {
+    const spec = `import { it, expect } from 'vitest';
+import { check } from './user-code';
+
+it('adds', () => {
+  check(() => expect(1 + 1).toBe(3));
+});
+`;
+    const userCode = `export function check(fn: () => void) {
+  try {
+    fn();
+  } catch {
+    // swallowed
+  }
+}
+`;
+    const result = await localRunner.run({
+      files: { 'user-code.ts': userCode, 'tests.spec.ts': spec },
+    });
+    expect(result.passed).toBe(false);
+    expect(result.tests[0]?.error).toContain('expected 2 to be 3');
+  });
+});
@@ -0,0 +1,48 @@
+import path from 'node:path';
+import { runnerSourceVersion } from '@/lib/runner/cache';
+import { createReporterParser } from '@/lib/runner/events';
+import { normalizeVitestReport } from '@/lib/runner/normalize';
+import { runCmd } from '@/lib/runner/process';
+import { readJsonReport, withWorkspace } from '@/lib/runner/workspace';
+import type { Runner } from '@/lib/runner/types';
+
+export const SANDBOX = path.join(process.cwd(), 'runner', 'local-sandbox.mjs');
+
+// No-Docker backend for developer machines: a child Node process with a heap
+// cap, an empty environment and a module loader that only serves the
+// workspace files and a small `vitest` shim (no fs, net or child_process).
+// TypeScript only: Python can't be confined like this, so it needs Docker.
+export const localRunner: Runner = {
+  name: 'local',
+  version: () => `local:${runnerSourceVersion('local-sandbox.mjs')}`,
+  languages: ['typescript'],
+  run: ({ files, hiddenFiles = [], timeoutMs = 8000 }, onEvent) =>
+    withWorkspace(files, async (dir) => {
+      const parser = createReporterParser(onEvent, hiddenFiles);
+      onEvent?.({ type: 'starting', runner: 'local' });
+
+      const result = await runCmd(
+        process.execPath,
+        [
+          '--max-old-space-size=128',
+          '--stack-size=2048',
+          '--disallow-code-generation-from-strings',
+          SANDBOX,
+          dir,
+        ],
+        timeoutMs,
+        { cwd: dir, env: { NODE_ENV: 'test' }, onMessage: parser.message },
+      );
+
+      const report = await readJsonReport(dir, 'report.json');
+
+      return {
+        passed: result.exitCode === 0,
+        stdout: result.stdout, // learner output only: events come over IPC
+        stderr: result.stderr,
+        tests: normalizeVitestReport(report, { hiddenFiles }),
+        report,
+        perf: parser.perf(),
+      };
+    }),
+};
@@ -0,0 +1,86 @@
+import type { RunnerName } from '@/lib/runner/types';
+
+// Run latency, kept in memory for the last MAX_SAMPLES runs of this process:
+// enough to compare backends (e.g. cold `local` vs warm `pool`) in a session.
+
+const MAX_SAMPLES = 500;
+
+export type RunLatencySample = {
+  runner: RunnerName;
+  at: string; // ISO time the run finished
+  queuedMs: number; // waiting for a slot in the run queue
+  runMs: number; // runner start to result (incl. worker start-up if cold)
+  passed: boolean;
+  cached: boolean; // served from the result cache: no queue, no run
+};
+
+export type LatencySummary = {
+  runs: number;
+  avgMs: number;
+  p50Ms: number;
+  p95Ms: number;
+  maxMs: number;
+};
+
+export type RunMetrics = {
+  runners: Partial<
+    Record<
+      RunnerName,
+      { run: LatencySummary; queued: LatencySummary; cacheHits: number }
+    >
+  >;
+  recent: RunLatencySample[]; // newest first, up to 20
+};
+
+const globalMetrics = globalThis as unknown as {
+  __tryloopRunLatency?: RunLatencySample[];
+};
+const samples = (globalMetrics.__tryloopRunLatency ??= []);
+
+export function recordRunLatency(sample: RunLatencySample) {
+  samples.push(sample);
+  if (samples.length > MAX_SAMPLES)
+    samples.splice(0, samples.length - MAX_SAMPLES);
+}
+
+function percentile(sorted: number[], p: number) {
+  const i = Math.min(
+    sorted.length - 1,
+    Math.ceil((p / 100) * sorted.length) - 1,
+  );
+  return sorted[Math.max(0, i)];
+}
+
+function summarize(values: number[]): LatencySummary {
+  const sorted = [...values].sort((a, b) => a - b);
+  if (!sorted.length)
+    return { runs: 0, avgMs: 0, p50Ms: 0, p95Ms: 0, maxMs: 0 };
+  const round = (n: number) => Math.round(n);
+  return {
+    runs: sorted.length,
+    avgMs: round(sorted.reduce((a, b) => a + b, 0) / sorted.length),
+    p50Ms: round(percentile(sorted, 50)),
+    p95Ms: round(percentile(sorted, 95)),
+    maxMs: round(sorted[sorted.length - 1]),
+  };
+}
+
+export function getRunMetrics(): RunMetrics {
+  const byRunner = new Map<RunnerName, RunLatencySample[]>();
+  for (const s of samples) {
+    byRunner.set(s.runner, [...(byRunner.get(s.runner) ?? []), s]);
+  }
+
+  const runners: RunMetrics['runners'] = {};
+  // Cache hits would drag the latency down to 0, so they're only counted
+  for (const [name, list] of byRunner) {
+    const ran = list.filter((s) => !s.cached);
+    runners[name] = {
+      run: summarize(ran.map((s) => s.runMs)),
+      queued: summarize(ran.map((s) => s.queuedMs)),
+      cacheHits: list.length - ran.length,
+    };
+  }
+
+  return { runners, recent: samples.slice(-20).reverse() };
+}
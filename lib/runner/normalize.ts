@@ -0,0 +1,171 @@
+import type { UiTest } from '@/lib/runner/types';
+import { tagVisibility } from '@/lib/runner/visibility';
+
+type Json = Record<string, unknown>;
+
+// Reports are parsed JSON: every field is checked as it is read, and a
+// missing or malformed object reads as {}
+function asObject(x: unknown): Json {
+  return x && typeof x === 'object' ? (x as Json) : {};
+}
+
+const text = (x: unknown) => (typeof x === 'string' ? x : undefined);
+
+function toUiState(x: unknown): UiTest['state'] {
+  const v = String(x ?? '').toLowerCase();
+
+  if (v === 'pass' || v === 'passed') return 'pass';
+  if (v === 'fail' || v === 'failed') return 'fail';
+  if (v === 'skip' || v === 'skipped') return 'skip';
+  if (v === 'todo') return 'todo';
+
+  return 'unknown';
+}
+
+// Normalize different Vitest JSON reporter shapes into a simple list for UI rendering.
+// Tests from `hiddenFiles` are tagged hidden (not redacted: that's the route's job).
+export function normalizeVitestReport(
+  report: unknown,
+  opts: { hiddenFiles?: string[] } = {},
+): UiTest[] {
+  const out: UiTest[] = [];
+  const r = asObject(report);
+
+  // Shape A: Jest-like JSON report (some versions)
+  if (Array.isArray(r.testResults)) {
+    for (const file of r.testResults.map(asObject)) {
+      const fileName = text(file.name);
+      const assertions = Array.isArray(file.assertionResults)
+        ? file.assertionResults.map(asObject)
+        : [];
+      for (const a of assertions) {
+        // Prefer "state" (newer), fallback to "status" (older)
+        const state = a.state ?? a.status;
+        const failures = Array.isArray(a.failureMessages)
+          ? a.failureMessages
+          : [];
+        const ancestors = Array.isArray(a.ancestorTitles)
+          ? a.ancestorTitles
+          : [];
+
+        out.push(
+          tagVisibility(
+            {
+              name: text(a.fullName) ?? text(a.title) ?? 'Unnamed test',
+              state: toUiState(state),
+              file: fileName,
+              error: failures.join('\n') || undefined,
+            },
+            opts.hiddenFiles,
+            text(ancestors[0]),
+          ),
+        );
+      }
+    }
+    return out;
+  }
+
+  // Shape B: Vitest "files" with nested "tasks"
+  if (Array.isArray(r.files)) {
+    for (const f of r.files.map(asObject)) {
+      const fileName = text(f.name);
+      const roots = Array.isArray(f.tasks) ? f.tasks : [];
+
+      const walk = (raw: unknown, topSuite?: string) => {
+        if (!raw) return;
+        const node = asObject(raw);
+        const result = asObject(node.result);
+
+        if (node.type === 'test') {
+          // Vitest task state usually lives here:
+          // node.result.state OR node.state
+          const state = result.state ?? node.state;
+
+          out.push(
+            tagVisibility(
+              {
+                name: text(node.name) ?? 'Unnamed test',
+                state: toUiState(state),
+                file: fileName,
+                error:
+                  text(asObject(result.error).message) ||
+                  (Array.isArray(result.errors)
+                    ? result.errors
+                        .map((e) => text(asObject(e).message))
+                        .filter(Boolean)
+                        .join('\n')
+                    : undefined),
+              },
+              opts.hiddenFiles,
+              topSuite,
+            ),
+          );
+        }
+
+        if (Array.isArray(node.tasks)) {
+          const suite =
+            topSuite ?? (node.type === 'suite' ? text(node.name) : undefined);
+          node.tasks.forEach((child) => walk(child, suite));
+        }
+      };
+
+      roots.forEach((node) => walk(node));
+    }
+    return out;
+  }
+
+  return out;
+}
+
+// pytest "Test" classes group tests like describe() blocks do:
+// TestEdgeCases → "edge cases". Same rule as runner/python/tryloop_pytest.py.
+export function pytestSuiteTitle(className: string) {
+  return className
+    .replace(/^Test/, '')
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .replace(/_/g, ' ')
+    .trim()
+    .toLowerCase();
+}
+
+const PYTEST_STATES: Record<string, UiTest['state']> = {
+  passed: 'pass',
+  xpassed: 'pass',
+  failed: 'fail',
+  error: 'fail',
+  skipped: 'skip',
+  xfailed: 'skip',
+};
+
+// Normalize a pytest JSON report (the pytest-json-report shape, also written
+// by runner/python/tryloop_pytest.py) into the same list as Vitest reports.
+// Node ids look like "test_hidden.py::TestEdgeCases::test_empty".
+export function normalizePytestReport(
+  report: unknown,
+  opts: { hiddenFiles?: string[] } = {},
+): UiTest[] {
+  const r = asObject(report);
+  if (!Array.isArray(r.tests)) return [];
+
+  return r.tests.map(asObject).map((t) => {
+    const [file, ...parts] = String(t.nodeid ?? '').split('::');
+    const classes = parts.slice(0, -1);
+    const phase = [t.setup, t.call, t.teardown]
+      .map(asObject)
+      .find((p) => p.outcome === 'failed');
+
+    return tagVisibility(
+      {
+        name: parts.join(' ') || 'Unnamed test',
+        state: PYTEST_STATES[String(t.outcome)] ?? 'unknown',
+        file,
+        error:
+          text(phase?.longrepr) ||
+          text(asObject(phase?.crash).message) ||
+          undefined,
+      },
+      opts.hiddenFiles,
+      classes[0] ? pytestSuiteTitle(classes[0]) : undefined,
+    );
+  });
+}
@@ -0,0 +1,39 @@
+import os from 'node:os';
+import { afterAll, describe, expect, it } from 'vitest';
+import { SANDBOX } from '@/lib/runner/local';
+import { createWorkerPool } from '@/lib/runner/pool';
+
+const pool = createWorkerPool({
+  size: 1,
+  healthIntervalMs: 60_000,
+  command: {
+    cmd: process.execPath,
+    args: [SANDBOX, '--worker'],
+    env: { NODE_ENV: 'test' },
+    cwd: os.tmpdir(),
+    ipc: true,
+  },
+});
+
+afterAll(() => pool.close());
+
+const files = {
+  'user-code.ts': 'export const one = () => 1;\n',
+  'tests.spec.ts': `import { it, expect } from 'vitest';
+import { one } from './user-code';
+
+it('one', () => {
+  expect(one()).toBe(1);
+});
+`,
+};
+
+describe('worker pool', () => {
+  it('gives every job a fresh worker', async () => {
+    const first = await pool.run(files, 10_000);
+    const second = await pool.run(files, 10_000);
+
+    expect([first.exitCode, second.exitCode]).toEqual([0, 0]);
+    expect(pool.stats()).toMatchObject({ jobs: 2, recycled: 2, replaced: 0 });
+  });
+});
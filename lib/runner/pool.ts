@@ -0,0 +1,289 @@
+import { spawn, type ChildProcess } from 'node:child_process';
+
+// Pool of pre-started sandbox workers (runner/local-sandbox.mjs --worker),
+// so a run skips process start-up and module loading. Each worker runs a
+// single job, in a fresh workspace and vm context, and is recycled as soon
+// as it is done: whatever learner code left behind in the process dies with
+// it, and its replacement warms up while the pool waits for the next run.
+// Crashed, hung (job timeout) or unresponsive (health check) workers are
+// killed and replaced.
+//
+// Jobs, runner messages and the learner's output (as "stdout" messages)
+// travel over an IPC channel; nothing learner code prints can pass for a
+// runner message. Docker workers can't have one: they speak JSON lines on
+// stdin/stdout, and learner output never reaches their stdout raw either.
+
+export type WorkerCommand = {
+  cmd: string;
+  args: string[];
+  env?: NodeJS.ProcessEnv;
+  cwd?: string;
+  ipc: boolean; // false: JSON lines on stdin/stdout (docker workers)
+};
+
+export type WorkerPoolConfig = {
+  size: number;
+  healthIntervalMs: number;
+  command: WorkerCommand;
+};
+
+export type PoolJobResult = {
+  exitCode: number;
+  stdout: string; // learner output
+  stderr: string;
+  report: unknown;
+};
+
+export type WorkerPoolStats = {
+  size: number;
+  idle: number;
+  busy: number;
+  starting: number;
+  waiting: number; // jobs waiting for a worker
+  jobs: number;
+  recycled: number; // retired after their job
+  replaced: number; // crashed, timed out or failed a health check
+};
+
+const START_TIMEOUT_MS = 15_000; // worker must say "ready" within this
+const PONG_TIMEOUT_MS = 2_000;
+const RESPAWN_DELAY_MS = 1_000; // after a worker dies before it was ready
+
+type Job = {
+  id: number;
+  files: Record<string, string>;
+  timeoutMs: number;
+  onMessage?: (msg: unknown) => void; // reporter events for the run
+  resolve: (result: PoolJobResult) => void;
+};
+
+// A message from a worker, before its fields are checked
+type WorkerMessage = Record<string, unknown>;
+
+const isMessage = (msg: unknown): msg is WorkerMessage =>
+  !!msg && typeof msg === 'object' && (msg as WorkerMessage).tryloop === 1;
+
+type Worker = {
+  child: ChildProcess;
+  state: 'starting' | 'idle' | 'busy' | 'dead';
+  pending: string; // partial stdout line (docker workers)
+  stdout: string; // since the current job started
+  stderr: string;
+  job: Job | null;
+  timer: ReturnType<typeof setTimeout> | null;
+  pingSentAt: number | null;
+};
+
+export function createWorkerPool(config: WorkerPoolConfig) {
+  const workers = new Set<Worker>();
+  const queue: Job[] = [];
+  const counters = { jobs: 0, recycled: 0, replaced: 0 };
+  const { ipc } = config.command;
+  let nextJobId = 1;
+  let closed = false;
+
+  const send = (w: Worker, msg: object) => {
+    if (ipc) {
+      // a worker that died is replaced on 'close'
+      if (w.child.connected) w.child.send(msg, () => {});
+    } else {
+      w.child.stdin?.write(`${JSON.stringify(msg)}\n`);
+    }
+  };
+
+  const finishJob = (w: Worker, result: PoolJobResult) => {
+    const job = w.job;
+    if (!job) return;
+    if (w.timer) clearTimeout(w.timer);
+    w.job = null;
+    w.timer = null;
+    job.resolve(result);
+  };
+
+  const retire = (w: Worker, reason: 'recycled' | 'replaced') => {
+    if (w.state === 'dead') return;
+    w.state = 'dead';
+    counters[reason]++;
+    // A recycled worker is done with its job, so a plain SIGTERM is enough. (Closing the
+    // IPC channel from this side would stop the child, but never emit 'close'.)
+    if (reason === 'replaced') w.child.kill('SIGKILL');
+    else if (ipc) w.child.kill();
+    else w.child.stdin?.end();
+  };
+
+  const onMessage = (w: Worker, msg: WorkerMessage) => {
+    if (msg.type === 'ready' && w.state === 'starting') {
+      if (w.timer) clearTimeout(w.timer);
+      w.timer = null;
+      w.state = 'idle';
+      dispatch();
+    } else if (msg.type === 'pong') {
+      w.pingSentAt = null;
+    } else if (msg.type === 'job-done') {
+      if (!w.job || msg.id !== w.job.id) return;
+      finishJob(w, {
+        exitCode: typeof msg.exitCode === 'number' ? msg.exitCode : 1,
+        stdout: w.stdout,
+        stderr: w.stderr,
+        report: msg.report ?? null,
+      });
+      retire(w, 'recycled');
+      dispatch();
+    } else if (msg.type === 'stdout') {
+      if (w.job && typeof msg.text === 'string') w.stdout += msg.text;
+    } else {
+      // reporter events belong to the current job
+      w.job?.onMessage?.(msg);
+    }
+  };
+
+  // Docker workers: every stdout line is the sandbox's own, so anything that
+  // isn't a message is runtime noise (kept with the job's output)
+  const onLine = (w: Worker, line: string) => {
+    let msg: unknown = null;
+    try {
+      msg = JSON.parse(line);
+    } catch {
+      // not a message
+    }
+    if (isMessage(msg)) onMessage(w, msg);
+    else if (w.job) w.stdout += `${line}\n`;
+  };
+
+  const spawnWorker = () => {
+    if (closed) return;
+    const { cmd, args, env, cwd } = config.command;
+    const child = spawn(cmd, args, {
+      stdio: ipc ? ['ignore', 'pipe', 'pipe', 'ipc'] : 'pipe',
+      env,
+      cwd,
+    });
+    const w: Worker = {
+      child,
+      state: 'starting',
+      pending: '',
+      stdout: '',
+      stderr: '',
+      job: null,
+      timer: null,
+      pingSentAt: null,
+    };
+    workers.add(w);
+
+    w.timer = setTimeout(() => retire(w, 'replaced'), START_TIMEOUT_MS);
+
+    if (ipc) {
+      child.on('message', (msg: unknown) => {
+        if (isMessage(msg)) onMessage(w, msg);
+      });
+      // runtime noise only: learner output comes as messages
+      child.stdout?.on('data', (d) => {
+        if (w.job) w.stdout += d.toString();
+      });
+    } else {
+      child.stdout?.on('data', (d) => {
+        w.pending += d.toString();
+        const lines = w.pending.split('\n');
+        w.pending = lines.pop() ?? '';
+        lines.forEach((line) => onLine(w, line));
+      });
+      child.stdin?.on('error', () => {
+        // the worker died; 'close' below replaces it
+      });
+    }
+    child.stderr?.on('data', (d) => (w.stderr += d.toString()));
+    child.on('error', (err) => {
+      w.stderr += `\n[TryLoop] Failed to start ${cmd}: ${err.message}`;
+    });
+
+    child.on('close', () => {
+      const wasReady = w.state !== 'starting';
+      if (w.state !== 'dead') counters.replaced++;
+      if (w.timer) clearTimeout(w.timer);
+      w.state = 'dead';
+      workers.delete(w);
+      finishJob(w, {
+        exitCode: 1,
+        stdout: w.stdout,
+        stderr: `${w.stderr}\n[TryLoop] Runner worker exited during the run`,
+        report: null,
+      });
+      // Keep the pool at size; back off when workers can't even start
+      if (wasReady) spawnWorker();
+      else setTimeout(spawnWorker, RESPAWN_DELAY_MS).unref();
+    });
+  };
+
+  const dispatch = () => {
+    for (const w of workers) {
+      if (!queue.length) return;
+      if (w.state !== 'idle') continue;
+
+      const job = queue.shift()!;
+      w.state = 'busy';
+      w.job = job;
+      w.stdout = '';
+      w.stderr = '';
+      counters.jobs++;
+      w.timer = setTimeout(() => {
+        finishJob(w, {
+          exitCode: 1,
+          stdout: w.stdout,
+          stderr: `${w.stderr}\n[TryLoop] Timeout after ${job.timeoutMs}ms`,
+          report: null,
+        });
+        retire(w, 'replaced');
+      }, job.timeoutMs);
+      send(w, { type: 'job', id: job.id, files: job.files });
+    }
+  };
+
+  // Idle workers must answer a ping before the next check
+  const health = setInterval(() => {
+    for (const w of workers) {
+      if (w.state !== 'idle') continue;
+      if (w.pingSentAt != null && Date.now() - w.pingSentAt > PONG_TIMEOUT_MS) {
+        retire(w, 'replaced');
+        continue;
+      }
+      w.pingSentAt = Date.now();
+      send(w, { type: 'ping' });
+    }
+  }, config.healthIntervalMs);
+  health.unref();
+
+  for (let i = 0; i < config.size; i++) spawnWorker();
+
+  return {
+    run: (
+      files: Record<string, string>,
+      timeoutMs: number,
+      onMessage?: (msg: unknown) => void,
+    ) =>
+      new Promise<PoolJobResult>((resolve) => {
+        queue.push({ id: nextJobId++, files, timeoutMs, onMessage, resolve });
+        dispatch();
+      }),
+
+    stats: (): WorkerPoolStats => {
+      const count = (state: Worker['state']) =>
+        [...workers].filter((w) => w.state === state).length;
+      return {
+        size: config.size,
+        idle: count('idle'),
+        busy: count('busy'),
+        starting: count('starting'),
+        waiting: queue.length,
+        ...counters,
+      };
+    },
+
+    close: () => {
+      closed = true;
+      clearInterval(health);
+      for (const w of workers) retire(w, 'recycled');
+    },
+  };
+}
+
+export type WorkerPool = ReturnType<typeof createWorkerPool>;
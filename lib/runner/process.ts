@@ -0,0 +1,58 @@
+import { spawn } from 'node:child_process';
+
+export type CmdResult = { exitCode: number; stdout: string; stderr: string };
+
+export function runCmd(
+  cmd: string,
+  args: string[],
+  timeoutMs = 8000,
+  opts: {
+    cwd?: string;
+    env?: NodeJS.ProcessEnv;
+    onStdout?: (chunk: string) => void;
+    stdin?: string; // written to the child's stdin, which is then closed
+    onMessage?: (msg: unknown) => void; // opens an IPC channel to the child
+  } = {},
+) {
+  return new Promise<CmdResult>((resolve) => {
+    const input = opts.stdin === undefined ? 'ignore' : 'pipe';
+    const child = spawn(cmd, args, {
+      stdio: opts.onMessage
+        ? [input, 'pipe', 'pipe', 'ipc']
+        : [input, 'pipe', 'pipe'],
+      cwd: opts.cwd,
+      env: opts.env,
+    });
+
+    let stdout = '';
+    let stderr = '';
+
+    if (opts.stdin !== undefined) {
+      // The child may exit without reading it
+      child.stdin?.on('error', () => {});
+      child.stdin?.end(opts.stdin);
+    }
+
+    const timer = setTimeout(() => {
+      stderr += `\n[TryLoop] Timeout after ${timeoutMs}ms`;
+      child.kill('SIGKILL');
+    }, timeoutMs);
+
+    child.stdout?.on('data', (d) => {
+      const chunk = d.toString();
+      stdout += chunk;
+      opts.onStdout?.(chunk);
+    });
+    child.stderr?.on('data', (d) => (stderr += d.toString()));
+    if (opts.onMessage) child.on('message', opts.onMessage);
+
+    child.on('error', (err) => {
+      stderr += `\n[TryLoop] Failed to start ${cmd}: ${err.message}`;
+    });
+
+    child.on('close', (code) => {
+      clearTimeout(timer);
+      resolve({ exitCode: code ?? 1, stdout, stderr });
+    });
+  });
+}
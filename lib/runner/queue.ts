@@ -0,0 +1,171 @@
+// In-process job queue in front of the runner: at most `concurrency` runs
+// (containers) at once, a bounded waiting line, and a per-learner limit on
+// how many runs can be started per time window.
+
+export type RunQueueConfig = {
+  concurrency: number; // runs executing at once
+  maxQueued: number; // runs waiting for a slot
+  perLearner: { limit: number; windowMs: number }; // admitted runs per window
+};
+
+export type RunRejection = 'rate-limited' | 'queue-full';
+
+export class RunRejectedError extends Error {
+  reason: RunRejection;
+  retryAfterMs: number;
+
+  constructor(reason: RunRejection, message: string, retryAfterMs: number) {
+    super(message);
+    this.name = 'RunRejectedError';
+    this.reason = reason;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+// A reserved place in line. `position` is 0 once the run has a slot,
+// otherwise the number of runs that start before it (1 = next).
+export type QueueTicket = {
+  position: () => number;
+  run: <T>(
+    job: () => Promise<T>,
+    onPosition?: (position: number) => void,
+  ) => Promise<T>;
+  cancel: () => void; // give up the place if the run hasn't started
+};
+
+export type RunQueueStats = {
+  running: number;
+  queued: number;
+  concurrency: number;
+  maxQueued: number;
+};
+
+type Waiter = {
+  start: () => void;
+  fail: (e: Error) => void;
+  onPosition?: (position: number) => void;
+};
+
+export function createRunQueue(config: RunQueueConfig) {
+  let running = 0;
+  const waiting: Waiter[] = [];
+  const admitted = new Map<string, number[]>(); // learner → admission times
+
+  const notifyPositions = () =>
+    waiting.forEach((w, i) => w.onPosition?.(i + 1));
+
+  const pump = () => {
+    let moved = false;
+    while (running < config.concurrency && waiting.length) {
+      running++;
+      waiting.shift()!.start();
+      moved = true;
+    }
+    if (moved) notifyPositions();
+  };
+
+  const rateLimit = (learnerId: string, now: number) => {
+    const { limit, windowMs } = config.perLearner;
+    const recent = (admitted.get(learnerId) ?? []).filter(
+      (t) => now - t < windowMs,
+    );
+    if (recent.length >= limit) {
+      admitted.set(learnerId, recent);
+      const retryAfterMs = recent[0] + windowMs - now;
+      throw new RunRejectedError(
+        'rate-limited',
+        `Too many runs: at most ${limit} per ${Math.round(windowMs / 1000)}s. Try again in ${Math.ceil(retryAfterMs / 1000)}s.`,
+        retryAfterMs,
+      );
+    }
+    recent.push(now);
+    admitted.set(learnerId, recent);
+  };
+
+  // Throws RunRejectedError when the learner is over their limit or the
+  // line is full; otherwise holds a place until the ticket runs or cancels.
+  const reserve = (learnerId: string): QueueTicket => {
+    const hasSlot = running < config.concurrency && !waiting.length;
+    if (!hasSlot && waiting.length >= config.maxQueued) {
+      throw new RunRejectedError(
+        'queue-full',
+        `The runner is busy (${waiting.length} runs waiting). Try again in a moment.`,
+        5000,
+      );
+    }
+    rateLimit(learnerId, Date.now());
+
+    let started = false;
+    let settled = false;
+    let waiter: Waiter | null = null;
+    const ready = new Promise<void>((resolve, reject) => {
+      waiter = {
+        start: () => {
+          started = true;
+          resolve();
+        },
+        fail: reject,
+      };
+    });
+    ready.catch(() => {}); // a cancelled ticket that never runs
+    waiting.push(waiter!);
+    pump();
+
+    return {
+      position: () => (started ? 0 : waiting.indexOf(waiter!) + 1),
+      run: async (job, onPosition) => {
+        waiter!.onPosition = onPosition;
+        if (!started) onPosition?.(waiting.indexOf(waiter!) + 1);
+        await ready;
+        try {
+          return await job();
+        } finally {
+          settled = true;
+          running--;
+          pump();
+        }
+      },
+      cancel: () => {
+        if (settled) return;
+        const at = waiting.indexOf(waiter!);
+        if (at < 0) return; // already running: let it finish
+        waiting.splice(at, 1);
+        settled = true;
+        waiter!.fail(new Error('Run cancelled while queued'));
+        notifyPositions();
+      },
+    };
+  };
+
+  const stats = (): RunQueueStats => ({
+    running,
+    queued: waiting.length,
+    concurrency: config.concurrency,
+    maxQueued: config.maxQueued,
+  });
+
+  return { reserve, stats };
+}
+
+export type RunQueue = ReturnType<typeof createRunQueue>;
+
+function envInt(name: string, fallback: number) {
+  const n = Number(process.env[name]);
+  return Number.isInteger(n) && n > 0 ? n : fallback;
+}
+
+// Route handlers can be bundled separately, so keep one queue per process.
+const globalQueue = globalThis as unknown as { __tryloopRunQueue?: RunQueue };
+
+// TRYLOOP_RUN_CONCURRENCY (default 4), TRYLOOP_RUN_QUEUE_MAX (default 50),
+// TRYLOOP_RUNS_PER_MINUTE per learner (default 10)
+export function getRunQueue(): RunQueue {
+  return (globalQueue.__tryloopRunQueue ??= createRunQueue({
+    concurrency: envInt('TRYLOOP_RUN_CONCURRENCY', 4),
+    maxQueued: envInt('TRYLOOP_RUN_QUEUE_MAX', 50),
+    perLearner: {
+      limit: envInt('TRYLOOP_RUNS_PER_MINUTE', 10),
+      windowMs: 60_000,
+    },
+  }));
+}
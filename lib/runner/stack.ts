@@ -0,0 +1,57 @@
+import type { UiTest } from '@/lib/runner/types';
+
+// Failure markers for the editor: where in the learner's file each failing
+// test broke, read from the stack frames in `UiTest.error`.
+
+export type LineMarker = {
+  line: number; // 1-based
+  column?: number;
+  messages: string[];
+};
+
+const USER_FILE = 'user-code.ts';
+
+function escapeRe(s: string) {
+  return s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// First frame in `file` (the innermost call), e.g. "at fn (/work/user-code.ts:4:12)"
+export function firstFrameLine(
+  error: string,
+  file = USER_FILE,
+): { line: number; column?: number } | null {
+  const m = new RegExp(
+    `(?:^|[\\s(/\\\\])${escapeRe(file)}:(\\d+)(?::(\\d+))?`,
+  ).exec(error);
+  if (!m) return null;
+  return { line: Number(m[1]), column: m[2] ? Number(m[2]) : undefined };
+}
+
+// The line that says what went wrong: pytest marks it with "E", other
+// runners put it first.
+function errorHeadline(error: string) {
+  const lines = error.split('\n');
+  const pytest = lines.find((l) => /^E\s/.test(l));
+  return (pytest ? pytest.slice(1) : lines[0]).trim();
+}
+
+// One marker per line; a line several tests broke on lists all of them.
+export function failureMarkers(
+  tests: UiTest[],
+  file = USER_FILE,
+): LineMarker[] {
+  const byLine = new Map<number, LineMarker>();
+
+  for (const t of tests) {
+    if (t.state !== 'fail' || !t.error) continue;
+    const at = firstFrameLine(t.error, file);
+    if (!at) continue;
+
+    const headline = errorHeadline(t.error);
+    const marker = byLine.get(at.line) ?? { ...at, messages: [] };
+    marker.messages.push(`${t.name}: ${headline}`);
+    byLine.set(at.line, marker);
+  }
+
+  return [...byLine.values()].sort((a, b) => a.line - b.line);
+}
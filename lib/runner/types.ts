@@ -0,0 +1,48 @@
+import type { LoopLanguage } from '@/lib/loops/languages';
+import type { PerfMeasurement } from '@/lib/perf/types';
+
+// Shared by every runner backend and by the editor UI.
+export type UiTest = {
+  name: string;
+  state: 'pass' | 'fail' | 'skip' | 'todo' | 'unknown';
+  file?: string;
+  error?: string;
+  visibility?: 'public' | 'hidden';
+  category?: string; // hidden tests: top-level describe() title (pytest: class)
+  example?: number; // example tests: index in the loop's `examples`
+};
+
+// Files to write into a fresh workspace, keyed by relative path.
+export type RunBundle = {
+  files: Record<string, string>;
+  hiddenFiles?: string[]; // spec files whose tests are tagged 'hidden'
+  timeoutMs?: number;
+  language?: LoopLanguage; // default: 'typescript'
+};
+
+export type RunOutcome = {
+  passed: boolean;
+  stdout: string;
+  stderr: string;
+  tests: UiTest[];
+  report: unknown; // raw backend report, kept while stabilizing
+  perf?: PerfMeasurement; // timings from the performance harness, if any
+};
+
+export type RunnerName = 'docker' | 'local' | 'pool';
+
+// Progress while a run is in flight. The final result is still the RunOutcome.
+export type RunEvent =
+  | { type: 'starting'; runner: RunnerName } // process / container spawned
+  | { type: 'started' } // test framework is up and collecting
+  | { type: 'test'; test: UiTest };
+
+export type Runner = {
+  name: RunnerName;
+  version: () => string; // changes whenever results could (image, sources)
+  languages: LoopLanguage[]; // loop languages this backend can run
+  run: (
+    bundle: RunBundle,
+    onEvent?: (event: RunEvent) => void,
+  ) => Promise<RunOutcome>;
+};
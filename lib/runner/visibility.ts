@@ -0,0 +1,31 @@
+import type { UiTest } from '@/lib/runner/types';
+
+function baseName(file: string) {
+  return file.split(/[\\/]/).pop() ?? file;
+}
+
+export function tagVisibility(
+  test: UiTest,
+  hiddenFiles: string[] = [],
+  category?: string,
+): UiTest {
+  const hidden = !!test.file && hiddenFiles.includes(baseName(test.file));
+  return hidden
+    ? { ...test, visibility: 'hidden', ...(category ? { category } : {}) }
+    : { ...test, visibility: 'public' };
+}
+
+// What the client may see of a hidden test: its outcome and category only.
+export function redactHidden(test: UiTest): UiTest {
+  if (test.visibility !== 'hidden') return test;
+  return {
+    name: 'Hidden check',
+    state: test.state,
+    visibility: 'hidden',
+    ...(test.category ? { category: test.category } : {}),
+  };
+}
+
+// Learner output can't be attributed to a test, and a console.log inside code
+// the hidden tests call would print their inputs, so it is withheld entirely.
+export const HIDDEN_OUTPUT = '(not shown: this loop has hidden checks)';
@@ -0,0 +1,94 @@
+import os from 'node:os';
+import { runnerSourceVersion } from '@/lib/runner/cache';
+import { createReporterParser } from '@/lib/runner/events';
+import { SANDBOX } from '@/lib/runner/local';
+import { normalizeVitestReport } from '@/lib/runner/normalize';
+import {
+  createWorkerPool,
+  type WorkerCommand,
+  type WorkerPool,
+} from '@/lib/runner/pool';
+import type { Runner } from '@/lib/runner/types';
+
+const SANDBOX_FLAGS = [
+  '--max-old-space-size=128',
+  '--stack-size=2048',
+  '--disallow-code-generation-from-strings',
+];
+
+function envInt(name: string, fallback: number) {
+  const n = Number(process.env[name]);
+  return Number.isInteger(n) && n > 0 ? n : fallback;
+}
+
+// TRYLOOP_POOL_WORKER=local (default): child Node processes, like the local
+// runner. =docker: each worker is a long-lived container of the runner image
+// (same limits as the docker runner) running the sandbox in worker mode.
+function workerCommand(): WorkerCommand {
+  if (process.env.TRYLOOP_POOL_WORKER === 'docker') {
+    return {
+      cmd: 'docker',
+      args: [
+        'run',
+        '-i',
+        '--rm',
+        '--network=none',
+        '--cpus=1',
+        '--memory=256m',
+        process.env.TRYLOOP_DOCKER_IMAGE ?? 'tryloop-runner',
+        'node',
+        ...SANDBOX_FLAGS,
+        '/opt/tryloop/local-sandbox.mjs',
+        '--worker',
+      ],
+      ipc: false,
+    };
+  }
+  return {
+    cmd: process.execPath,
+    args: [...SANDBOX_FLAGS, SANDBOX, '--worker'],
+    env: { NODE_ENV: 'test' },
+    cwd: os.tmpdir(),
+    ipc: true,
+  };
+}
+
+// Route handlers can be bundled separately, so keep one pool per process.
+const globalPool = globalThis as unknown as { __tryloopPool?: WorkerPool };
+
+// Started on first use. TRYLOOP_POOL_SIZE workers (default 2).
+export function getWorkerPool(): WorkerPool {
+  return (globalPool.__tryloopPool ??= createWorkerPool({
+    size: envInt('TRYLOOP_POOL_SIZE', 2),
+    healthIntervalMs: 10_000,
+    command: workerCommand(),
+  }));
+}
+
+// The pool if it has been started (for metrics), without starting it.
+export function peekWorkerPool(): WorkerPool | null {
+  return globalPool.__tryloopPool ?? null;
+}
+
+// Warm backend: same sandbox and report as the local runner, but the run
+// goes to an already started worker instead of a new process.
+export const poolRunner: Runner = {
+  name: 'pool',
+  version: () => `pool:${runnerSourceVersion('local-sandbox.mjs')}`,
+  languages: ['typescript'],
+  run: async ({ files, hiddenFiles = [], timeoutMs = 8000 }, onEvent) => {
+    const parser = createReporterParser(onEvent, hiddenFiles);
+    onEvent?.({ type: 'starting', runner: 'pool' });
+
+    const result = await getWorkerPool().run(files, timeoutMs, parser.message);
+
+    return {
+      passed: result.exitCode === 0,
+      stdout: result.stdout,
+      stderr: result.stderr,
+      tests: normalizeVitestReport(result.report, { hiddenFiles }),
+      report: result.report,
+      perf: parser.perf(),
+    };
+  },
+};
@@ -0,0 +1,38 @@
+import path from 'node:path';
+import { mkdir, mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+
+// Create a temp workspace with `files`, hand it to `fn`, always clean up.
+export async function withWorkspace<T>(
+  files: Record<string, string>,
+  fn: (dir: string) => Promise<T>,
+): Promise<T> {
+  const dir = await mkdtemp(path.join(tmpdir(), 'tryloop-'));
+
+  try {
+    for (const [rel, content] of Object.entries(files)) {
+      const target = path.join(dir, rel);
+      if (!target.startsWith(dir + path.sep)) {
+        throw new Error(
+          `[TryLoop] Refusing to write outside workspace: ${rel}`,
+        );
+      }
+      await mkdir(path.dirname(target), { recursive: true });
+      await writeFile(target, content, 'utf8');
+    }
+
+    return await fn(dir);
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+}
+
+// Parse a JSON file from the workspace; null if missing or malformed
+// (reports can be missing if the test process crashes early).
+export async function readJsonReport(dir: string, name: string) {
+  try {
+    return JSON.parse(await readFile(path.join(dir, name), 'utf8'));
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,41 @@
+import path from 'node:path';
+import { appendFile, mkdir, readFile } from 'node:fs/promises';
+import { DATA_DIR } from '@/lib/store/jsonStore';
+
+// Append-only JSON-lines log next to the JSON stores (DATA_DIR/<name>.jsonl),
+// for events that are only ever added and read back in bulk. Appends don't
+// rewrite the file, so the log can grow past what a JSON store would.
+
+export type EventLog<T> = {
+  append: (event: T) => Promise<void>;
+  readAll: () => Promise<T[]>; // oldest first; unreadable lines are skipped
+};
+
+export function createEventLog<T>(name: string): EventLog<T> {
+  const filePath = path.join(DATA_DIR, `${name}.jsonl`);
+
+  return {
+    append: async (event) => {
+      await mkdir(DATA_DIR, { recursive: true });
+      await appendFile(filePath, `${JSON.stringify(event)}\n`, 'utf8');
+    },
+    readAll: async () => {
+      let raw: string;
+      try {
+        raw = await readFile(filePath, 'utf8');
+      } catch {
+        return [];
+      }
+      const out: T[] = [];
+      for (const line of raw.split('\n')) {
+        if (!line.trim()) continue;
+        try {
+          out.push(JSON.parse(line) as T);
+        } catch {
+          // a torn write: skip it
+        }
+      }
+      return out;
+    },
+  };
+}
@@ -0,0 +1,74 @@
+import path from 'node:path';
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+
+// Small file-backed JSON store for local / workshop deployments.
+// Data lives in TRYLOOP_DATA_DIR (default: ./.tryloop), one file per store.
+// Writes are serialized per file and land atomically (write + rename).
+
+export const DATA_DIR =
+  process.env.TRYLOOP_DATA_DIR ?? path.join(process.cwd(), '.tryloop');
+
+// Route handlers can be bundled separately, so keep the locks process-wide.
+const globalLocks = globalThis as unknown as {
+  __tryloopStoreLocks?: Map<string, Promise<unknown>>;
+};
+const locks = (globalLocks.__tryloopStoreLocks ??= new Map());
+
+function withLock<T>(key: string, fn: () => Promise<T>): Promise<T> {
+  const prev = locks.get(key) ?? Promise.resolve();
+  const next = prev.then(fn, fn);
+  locks.set(
+    key,
+    next.catch(() => {}),
+  );
+  return next;
+}
+
+export type JsonStore<T> = {
+  read: () => Promise<T>;
+  // `fn` may mutate the draft in place or return a replacement.
+  update: <R>(fn: (draft: T) => R | Promise<R>) => Promise<R>;
+};
+
+export function createJsonStore<T>(
+  name: string,
+  initial: () => T,
+): JsonStore<T> {
+  const filePath = path.join(DATA_DIR, `${name}.json`);
+
+  // Only a missing file means "empty". A file that can't be read or parsed
+  // must fail loudly: falling back to initial() would let the next update
+  // overwrite everything that was in it.
+  const load = async (): Promise<T> => {
+    let text: string;
+    try {
+      text = await readFile(filePath, 'utf8');
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === 'ENOENT') return initial();
+      throw err;
+    }
+    try {
+      return JSON.parse(text) as T;
+    } catch (err) {
+      throw new Error(
+        `Store file ${filePath} is corrupted: ${(err as Error).message}`,
+      );
+    }
+  };
+
+  return {
+    read: () => withLock(filePath, load),
+    update: (fn) =>
+      withLock(filePath, async () => {
+        const draft = await load();
+        const result = await fn(draft);
+
+        await mkdir(DATA_DIR, { recursive: true });
+        const tmp = `${filePath}.${process.pid}.tmp`;
+        await writeFile(tmp, JSON.stringify(draft, null, 2), 'utf8');
+        await rename(tmp, filePath);
+
+        return result;
+      }),
+  };
+}
@@ -0,0 +1,37 @@
+import { randomUUID } from 'node:crypto';
+import { createJsonStore } from '@/lib/store/jsonStore';
+import type { Submission } from '@/lib/submissions/types';
+
+// Code snapshots per run, per learner and per loop (newest last, capped).
+
+type SubmissionData = Record<string, Record<string, Submission[]>>; // learner → loop
+
+const SUBMISSION_LIMIT = 30;
+
+const store = createJsonStore<SubmissionData>('submissions', () => ({}));
+
+export async function listSubmissions(
+  learnerId: string,
+  loopId: string,
+): Promise<Submission[]> {
+  const data = await store.read();
+  const loops = Object.hasOwn(data, learnerId) ? data[learnerId] : {};
+  return Object.hasOwn(loops, loopId) ? loops[loopId] : [];
+}
+
+export function recordSubmission(
+  learnerId: string,
+  loopId: string,
+  submission: Omit<Submission, 'id' | 'at'>,
+): Promise<Submission> {
+  return store.update((data) => {
+    const entry: Submission = {
+      id: randomUUID(),
+      at: new Date().toISOString(),
+      ...submission,
+    };
+    const loops = (data[learnerId] ??= {});
+    loops[loopId] = [...(loops[loopId] ?? []), entry].slice(-SUBMISSION_LIMIT);
+    return entry;
+  });
+}
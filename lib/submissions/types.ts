@@ -0,0 +1,61 @@
+// Kept free of the store (node:fs) so client components can use these.
+import type { UiTest } from '@/lib/runner/types';
+
+export type SubmissionTest = Pick<
+  UiTest,
+  'name' | 'state' | 'visibility' | 'category'
+>;
+
+// One "Run tests" click: the code as it was run and how each test went.
+export type Submission = {
+  id: string;
+  at: string; // ISO time
+  code: string; // main file
+  files?: Record<string, string>; // every editable file (older runs: only `code`)
+  passed: boolean;
+  mode: 'normal' | 'glitch';
+  glitchId: string | null;
+  tests: SubmissionTest[]; // hidden tests already redacted
+};
+
+// The submission's editable files, by path; `mainPath` places older
+// single-file records.
+export function submissionFiles(
+  s: Submission,
+  mainPath: string,
+): Record<string, string> {
+  return s.files ?? { [mainPath]: s.code };
+}
+
+export type TestChange = {
+  name: string;
+  before: SubmissionTest['state'] | null; // null: not in that run
+  after: SubmissionTest['state'] | null;
+};
+
+// Pairs tests by name (hidden checks by position, since they share a name).
+export function compareTestOutcomes(
+  before: SubmissionTest[],
+  after: SubmissionTest[],
+): TestChange[] {
+  const key = (tests: SubmissionTest[]) => {
+    const seen = new Map<string, number>();
+    return tests.map((t) => {
+      const n = seen.get(t.name) ?? 0;
+      seen.set(t.name, n + 1);
+      return n ? `${t.name} #${n + 1}` : t.name;
+    });
+  };
+
+  const rows = new Map<string, TestChange>();
+  key(before).forEach((name, i) =>
+    rows.set(name, { name, before: before[i].state, after: null }),
+  );
+  key(after).forEach((name, i) => {
+    const row = rows.get(name) ?? { name, before: null, after: null };
+    row.after = after[i].state;
+    rows.set(name, row);
+  });
+
+  return [...rows.values()];
+}
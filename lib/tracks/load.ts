@@ -0,0 +1,117 @@
+import path from 'node:path';
+import { readdir, readFile } from 'node:fs/promises';
+import { listLoops } from '@/lib/loops/catalog';
+import {
+  parseTrackManifest,
+  TrackValidationError,
+  type TrackManifest,
+} from '@/lib/tracks/schema';
+import { unlockRuleLoops, type TrackLoopInfo } from '@/lib/tracks/status';
+
+export class TrackNotFoundError extends Error {
+  constructor(trackId: string) {
+    super(`Track not found: ${trackId}`);
+    this.name = 'TrackNotFoundError';
+  }
+}
+
+export const TRACKS_DIR = path.join(process.cwd(), 'tracks');
+
+// Same rule as loop ids: they become file names
+export function isValidTrackId(trackId: string) {
+  return /^[A-Za-z0-9][\w-]*$/.test(trackId);
+}
+
+// Reads and validates tracks/<id>.json.
+// Throws TrackNotFoundError or TrackValidationError.
+export async function loadTrack(trackId: string): Promise<TrackManifest> {
+  if (!isValidTrackId(trackId)) throw new TrackNotFoundError(trackId);
+  const source = `tracks/${trackId}.json`;
+
+  let raw: string;
+  try {
+    raw = await readFile(path.join(TRACKS_DIR, `${trackId}.json`), 'utf8');
+  } catch {
+    throw new TrackNotFoundError(trackId);
+  }
+
+  let json: unknown;
+  try {
+    json = JSON.parse(raw);
+  } catch (e: unknown) {
+    throw new TrackValidationError(source, [
+      `not valid JSON: ${(e as Error).message}`,
+    ]);
+  }
+  const track = parseTrackManifest(json, source);
+  if (track.id !== trackId) {
+    throw new TrackValidationError(source, [
+      `"id" is "${track.id}" but the file is "${trackId}.json"`,
+    ]);
+  }
+  return track;
+}
+
+export async function listTrackIds(): Promise<string[]> {
+  try {
+    const entries = await readdir(TRACKS_DIR, { withFileTypes: true });
+    return entries
+      .filter((e) => e.isFile() && e.name.endsWith('.json'))
+      .map((e) => e.name.slice(0, -'.json'.length))
+      .sort();
+  } catch {
+    return []; // no tracks folder: no tracks
+  }
+}
+
+// Every valid track. Broken ones are skipped (`npm run loops:validate`
+// reports them).
+export async function listTracks(): Promise<TrackManifest[]> {
+  const out: TrackManifest[] = [];
+  for (const trackId of await listTrackIds()) {
+    try {
+      out.push(await loadTrack(trackId));
+    } catch {
+      // broken track file
+    }
+  }
+  return out;
+}
+
+// Title and difficulty of every valid loop, for track statuses.
+export async function trackLoopInfos(): Promise<Record<string, TrackLoopInfo>> {
+  const loops = await listLoops();
+  return Object.fromEntries(
+    loops.map((l) => [l.id, { title: l.title, difficulty: l.difficulty }]),
+  );
+}
+
+// Everything an author can get wrong in tracks/<id>.json, including loops
+// that don't exist and unlock rules no learner can meet.
+export async function validateTrack(trackId: string): Promise<string[]> {
+  let track: TrackManifest;
+  try {
+    track = await loadTrack(trackId);
+  } catch (e: unknown) {
+    if (e instanceof TrackValidationError) return e.issues;
+    return [(e as Error).message];
+  }
+
+  const loops = await trackLoopInfos();
+  const issues: string[] = [];
+  track.loops.forEach((entry, i) => {
+    if (!loops[entry.id]) {
+      issues.push(`"loops[${i}]": loop "${entry.id}" does not exist`);
+    }
+    const rule = entry.unlock;
+    if (rule && !Array.isArray(rule.of)) {
+      const counted = unlockRuleLoops(track, i, rule, loops);
+      if (counted.length < rule.solve) {
+        issues.push(
+          `"loops[${i}].unlock" needs ${rule.solve} difficulty-${rule.of.difficulty} loops before it, the track has ${counted.length}`,
+        );
+      }
+    }
+  });
+  return issues;
+}
@@ -0,0 +1,138 @@
+// Single source of truth for tracks/<id>.json: an ordered curriculum of
+// loops. Client-safe.
+
+// "Solve 3 of these 5 loops": `of` lists loop ids, or picks the loops of one
+// difficulty that come earlier in the track.
+export type UnlockRule = {
+  solve: number;
+  of: string[] | { difficulty: number };
+};
+
+// A loop is available once every `after` loop is solved and its unlock
+// rule (if any) holds. Both only name loops earlier in the track, so a
+// track can't lock itself.
+export type TrackLoop = {
+  id: string;
+  after?: string[];
+  unlock?: UnlockRule;
+};
+
+export type TrackManifest = {
+  id: string;
+  title: string;
+  description?: string;
+  loops: TrackLoop[]; // in the order learners take them
+};
+
+export class TrackValidationError extends Error {
+  issues: string[];
+
+  constructor(source: string, issues: string[]) {
+    super(`Invalid track (${source}):\n- ${issues.join('\n- ')}`);
+    this.name = 'TrackValidationError';
+    this.issues = issues;
+  }
+}
+
+type Json = Record<string, unknown>;
+
+// Tracks are parsed JSON: every field is checked before it is used
+function isObject(x: unknown): x is Json {
+  return !!x && typeof x === 'object' && !Array.isArray(x);
+}
+
+function isStringArray(x: unknown): x is string[] {
+  return Array.isArray(x) && x.every((v) => typeof v === 'string');
+}
+
+const isInteger = (x: unknown): x is number => Number.isInteger(x);
+
+function unlockIssues(rule: unknown, earlier: string[], at: string): string[] {
+  if (!isObject(rule)) {
+    return [`${at} must be { solve, of }`];
+  }
+  const issues: string[] = [];
+
+  if (!isInteger(rule.solve) || rule.solve < 1) {
+    issues.push(`${at}.solve must be an integer >= 1`);
+  }
+  if (isStringArray(rule.of)) {
+    for (const id of rule.of.filter((id) => !earlier.includes(id))) {
+      issues.push(`${at}.of: "${id}" must come earlier in the track`);
+    }
+    if (isInteger(rule.solve) && rule.solve > rule.of.length) {
+      issues.push(
+        `${at}.solve is more than the ${rule.of.length} loops listed`,
+      );
+    }
+  } else if (!isObject(rule.of) || !isInteger(rule.of.difficulty)) {
+    issues.push(`${at}.of must be an array of loop ids or { difficulty }`);
+  }
+
+  return issues;
+}
+
+// Collect every problem, like loopManifestIssues. Loop ids are checked
+// against the loops folder separately (validateTrack).
+export function trackManifestIssues(raw: unknown): string[] {
+  if (!isObject(raw)) {
+    return ['track must be a JSON object'];
+  }
+  const o = raw;
+  const issues: string[] = [];
+
+  for (const key of ['id', 'title']) {
+    const value = o[key];
+    if (typeof value !== 'string' || !value.trim()) {
+      issues.push(`"${key}" is required and must be a non-empty string`);
+    }
+  }
+  if (o.description != null && typeof o.description !== 'string') {
+    issues.push('"description" must be a string');
+  }
+  if (!Array.isArray(o.loops) || !o.loops.length) {
+    issues.push('"loops" must be a non-empty array');
+    return issues;
+  }
+
+  const earlier: string[] = [];
+  o.loops.forEach((entry: unknown, i: number) => {
+    const at = `"loops[${i}]"`;
+    if (!isObject(entry)) {
+      issues.push(`${at} must be { id, after?, unlock? }`);
+      return;
+    }
+    if (typeof entry.id !== 'string' || !entry.id) {
+      issues.push(`${at}.id must be a loop id`);
+    } else if (earlier.includes(entry.id)) {
+      issues.push(`${at}: "${entry.id}" is listed twice`);
+    }
+
+    if (entry.after != null) {
+      if (!isStringArray(entry.after)) {
+        issues.push(`${at}.after must be an array of loop ids`);
+      } else {
+        for (const id of entry.after.filter((id) => !earlier.includes(id))) {
+          issues.push(`${at}.after: "${id}" must come earlier in the track`);
+        }
+      }
+    }
+    if (entry.unlock != null) {
+      issues.push(...unlockIssues(entry.unlock, earlier, `${at}.unlock`));
+    }
+
+    if (typeof entry.id === 'string') earlier.push(entry.id);
+  });
+
+  return issues;
+}
+
+// Throws TrackValidationError.
+export function parseTrackManifest(
+  raw: unknown,
+  source = 'track.json',
+): TrackManifest {
+  const issues = trackManifestIssues(raw);
+  if (issues.length) throw new TrackValidationError(source, issues);
+  return raw as TrackManifest;
+}
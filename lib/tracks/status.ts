@@ -0,0 +1,108 @@
+import { loopStatus, type LoopProgress } from '@/lib/progress/types';
+import type { TrackManifest, UnlockRule } from '@/lib/tracks/schema';
+
+// Where a learner stands in a track. Client-safe: the API computes it from
+// the learner's progress, the track page renders it.
+
+export type TrackLoopState = 'locked' | 'available' | 'completed';
+
+export type TrackLoopInfo = { title: string; difficulty: number };
+
+export type TrackLoopStatus = {
+  id: string;
+  title: string;
+  difficulty: number;
+  state: TrackLoopState;
+  locks: string[]; // what a locked loop is waiting for
+};
+
+export type TrackStatus = {
+  id: string;
+  title: string;
+  description: string | null;
+  loops: TrackLoopStatus[];
+  completed: number;
+  next: string | null; // first available loop in track order
+};
+
+// The loops an unlock rule counts, in track order
+export function unlockRuleLoops(
+  track: TrackManifest,
+  index: number,
+  rule: UnlockRule,
+  loops: Record<string, TrackLoopInfo>,
+): string[] {
+  if (Array.isArray(rule.of)) return rule.of;
+  const { difficulty } = rule.of;
+  return track.loops
+    .slice(0, index)
+    .map((l) => l.id)
+    .filter((id) => loops[id]?.difficulty === difficulty);
+}
+
+// Solved loops are completed even if the track would lock them now (e.g.
+// solved from the catalog before the rules changed).
+export function trackStatus(
+  track: TrackManifest,
+  loops: Record<string, TrackLoopInfo>,
+  progress: Record<string, LoopProgress>,
+): TrackStatus {
+  const solved = (id: string) => loopStatus(progress[id]) === 'solved';
+  const title = (id: string) => loops[id]?.title ?? id;
+
+  const statuses = track.loops.map((entry, i): TrackLoopStatus => {
+    const locks: string[] = [];
+
+    const missing = (entry.after ?? []).filter((id) => !solved(id));
+    if (missing.length) {
+      locks.push(`Solve ${missing.map(title).join(', ')} first`);
+    }
+
+    const rule = entry.unlock;
+    if (rule) {
+      const counted = unlockRuleLoops(track, i, rule, loops);
+      const done = counted.filter(solved).length;
+      if (done < rule.solve) {
+        const which = Array.isArray(rule.of)
+          ? `of: ${counted.map(title).join(', ')}`
+          : `difficulty-${rule.of.difficulty} loops`;
+        locks.push(`Solve ${rule.solve} ${which} (${done} so far)`);
+      }
+    }
+
+    return {
+      id: entry.id,
+      title: title(entry.id),
+      difficulty: loops[entry.id]?.difficulty ?? 0,
+      state: solved(entry.id)
+        ? 'completed'
+        : locks.length
+          ? 'locked'
+          : 'available',
+      locks,
+    };
+  });
+
+  return {
+    id: track.id,
+    title: track.title,
+    description: track.description ?? null,
+    loops: statuses,
+    completed: statuses.filter((l) => l.state === 'completed').length,
+    next: statuses.find((l) => l.state === 'available')?.id ?? null,
+  };
+}
+
+// Where to go after `loopId`: the next available loop after it in track
+// order, else the first one before it. Null when nothing is available.
+export function nextLoopAfter(
+  status: TrackStatus,
+  loopId: string,
+): TrackLoopStatus | null {
+  const at = status.loops.findIndex((l) => l.id === loopId);
+  const ordered = [
+    ...status.loops.slice(at + 1),
+    ...status.loops.slice(0, Math.max(at, 0)),
+  ];
+  return ordered.find((l) => l.state === 'available') ?? null;
+}
@@ -0,0 +1,20 @@
+import { describe, it, expect } from 'vitest';
+import { filterAdults } from './user-code';
+
+describe('edge cases', () => {
+  it('returns an empty array when nobody is 18 or older', () => {
+    expect(filterAdults([{ age: 3 }, { age: 17 }])).toEqual([]);
+  });
+
+  it('keeps users in their original order', () => {
+    const users = [{ age: 40 }, { age: 12 }, { age: 19 }, { age: 18 }];
+    expect(filterAdults(users).map((u) => u.age)).toEqual([40, 19, 18]);
+  });
+});
+
+describe('input safety', () => {
+  it('returns a new array instead of the input', () => {
+    const users = [{ age: 30 }];
+    expect(filterAdults(users)).not.toBe(users);
+  });
+});
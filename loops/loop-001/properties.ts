@@ -0,0 +1,24 @@
+import { deepEqual, gen, type Properties } from './tryloop-property';
+
+type User = { name: string; age: number };
+
+// Ages cluster around 18 so the boundary comes up often
+export const args = gen.tuple(
+  gen.array(
+    gen.record<User>({
+      name: gen.string({ maxLength: 5 }),
+      age: gen.integer(0, 40),
+    }),
+  ),
+);
+
+export const properties: Properties<[User[]], User[]> = {
+  'output is a subset of input': ({ before: [users], output }) =>
+    Array.isArray(output) &&
+    output.every((u) => users.some((v) => deepEqual(u, v))),
+  'every output item has age >= 18': ({ output }) =>
+    output.every((u) => u.age >= 18),
+  'every adult is kept': ({ before: [users], output }) =>
+    output.length === users.filter((u) => u.age >= 18).length,
+  'input is unchanged': ({ args, before }) => deepEqual(args, before),
+};
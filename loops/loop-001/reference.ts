@@ -0,0 +1,3 @@
+export function filterAdults(users: Array<{ age: number }>) {
+  return users.filter((user) => user.age >= 18);
+}
@@ -0,0 +1,26 @@
+import { describe, it, expect } from 'vitest';
+import { cartTotal } from './cart';
+import { formatCents } from './format';
+
+describe('edge cases', () => {
+  it('formats amounts under a dollar', () => {
+    expect(formatCents(5)).toBe('$0.05');
+  });
+
+  it('ignores items with a quantity of 0', () => {
+    expect(
+      cartTotal([
+        { sku: 'caviar', qty: 0 },
+        { sku: 'bread', qty: 2 },
+      ]),
+    ).toBe(500);
+  });
+});
+
+describe('input safety', () => {
+  it('does not mutate the cart', () => {
+    const items = [{ sku: 'apple', qty: 2 }];
+    cartTotal(items);
+    expect(items).toEqual([{ sku: 'apple', qty: 2 }]);
+  });
+});
@@ -0,0 +1,12 @@
+import { PRICES, type CartItem } from './catalog';
+
+export function cartTotal(items: CartItem[]): number {
+  let total = 0;
+  for (const item of items) {
+    if (item.qty === 0) continue;
+    const price = PRICES[item.sku];
+    if (price === undefined) throw new Error(`Unknown SKU: ${item.sku}`);
+    total += price * item.qty;
+  }
+  return total;
+}
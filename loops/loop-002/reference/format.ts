@@ -0,0 +1,5 @@
+export function formatCents(cents: number): string {
+  const dollars = Math.floor(cents / 100);
+  const rest = String(cents % 100).padStart(2, '0');
+  return `$${dollars}.${rest}`;
+}
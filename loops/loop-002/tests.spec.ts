@@ -0,0 +1,31 @@
+import { describe, it, expect } from 'vitest';
+import { cartTotal } from './cart';
+import { formatCents } from './format';
+
+describe('cartTotal', () => {
+  it('adds up price × quantity', () => {
+    const items = [
+      { sku: 'apple', qty: 3 },
+      { sku: 'milk', qty: 1 },
+    ];
+    expect(cartTotal(items)).toBe(270);
+  });
+
+  it('returns 0 for an empty cart', () => {
+    expect(cartTotal([])).toBe(0);
+  });
+
+  it('throws for an unknown SKU', () => {
+    expect(() => cartTotal([{ sku: 'caviar', qty: 1 }])).toThrow();
+  });
+});
+
+describe('formatCents', () => {
+  it('formats dollars and cents', () => {
+    expect(formatCents(1250)).toBe('$12.50');
+  });
+
+  it('pads single-digit cents', () => {
+    expect(formatCents(705)).toBe('$7.05');
+  });
+});
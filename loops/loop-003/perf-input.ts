@@ -0,0 +1,5 @@
+// n numbers where about half are repeats, spread over the whole array
+export function makeInput(n: number) {
+  const values = Array.from({ length: n }, (_, i) => (i * 7919) % (n / 2));
+  return [values];
+}
@@ -0,0 +1,3 @@
+export function uniqueValues(values: number[]): number[] {
+  return [...new Set(values)];
+}
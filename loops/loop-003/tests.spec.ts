@@ -0,0 +1,18 @@
+import { describe, it, expect } from 'vitest';
+import { uniqueValues } from './user-code';
+
+describe('uniqueValues', () => {
+  it('keeps the first occurrence of each value', () => {
+    expect(uniqueValues([3, 1, 3, 2, 1])).toEqual([3, 1, 2]);
+  });
+
+  it('returns an empty array for an empty input', () => {
+    expect(uniqueValues([])).toEqual([]);
+  });
+
+  it('does not mutate the input array', () => {
+    const values = [1, 1, 2];
+    uniqueValues(values);
+    expect(values).toEqual([1, 1, 2]);
+  });
+});
@@ -0,0 +1,15 @@
+from tryloop_property import gen
+
+# Ages cluster around 18 so the boundary comes up often
+ARGS = gen.tuple(
+    gen.array(gen.record({"name": gen.string(max_length=5), "age": gen.integer(0, 40)}))
+)
+
+PROPERTIES = {
+    "output is a subset of input": lambda run: isinstance(run.output, list)
+    and all(u in run.before[0] for u in run.output),
+    "every output item has age >= 18": lambda run: all(u["age"] >= 18 for u in run.output),
+    "every adult is kept": lambda run: len(run.output)
+    == len([u for u in run.before[0] if u["age"] >= 18]),
+    "input is unchanged": lambda run: run.args == run.before,
+}
@@ -0,0 +1,2 @@
+def filter_adults(users):
+    return [user for user in users if user["age"] >= 18]
@@ -0,0 +1,16 @@
+from user_code import filter_adults
+
+
+class TestEdgeCases:
+    def test_returns_an_empty_list_when_nobody_is_18_or_older(self):
+        assert filter_adults([{"age": 3}, {"age": 17}]) == []
+
+    def test_keeps_users_in_their_original_order(self):
+        users = [{"age": 40}, {"age": 12}, {"age": 19}, {"age": 18}]
+        assert [u["age"] for u in filter_adults(users)] == [40, 19, 18]
+
+
+class TestInputSafety:
+    def test_returns_a_new_list_instead_of_the_input(self):
+        users = [{"age": 30}]
+        assert filter_adults(users) is not users
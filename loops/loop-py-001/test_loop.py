@@ -0,0 +1,22 @@
+from user_code import filter_adults
+
+
+def test_returns_only_users_with_age_18_or_more():
+    users = [{"age": 17}, {"age": 18}, {"age": 22}]
+    assert [u["age"] for u in filter_adults(users)] == [18, 22]
+
+
+def test_includes_users_who_are_exactly_18():
+    users = [{"age": 18}, {"age": 17}]
+    assert [u["age"] for u in filter_adults(users)] == [18]
+
+
+def test_returns_an_empty_list_for_an_empty_list():
+    assert filter_adults([]) == []
+
+
+def test_does_not_mutate_the_input_list():
+    users = [{"age": 18}, {"age": 22}]
+    snapshot = list(users)
+    filter_adults(users)
+    assert users == snapshot
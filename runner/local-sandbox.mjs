@@ -0,0 +1,972 @@
+// TryLoop local sandbox: runs the *.spec.ts files of a workspace without Docker.
+//
+//   node --max-old-space-size=128 runner/local-sandbox.mjs <workspace>
+//   node --max-old-space-size=128 runner/local-sandbox.mjs --worker
+//
+// Worker mode keeps the process (and TypeScript) loaded for the warm pool
+// (lib/runner/pool.ts): each {"type":"job","id":n,"files":{...}} message runs
+// in a fresh temp workspace and ends with a {"type":"job-done","id":n}
+// message carrying the report; {"type":"ping"} is answered with
+// {"type":"pong"}.
+//
+// Runner messages (progress events, job-done, ready, pong) go over the Node
+// IPC channel the server opens, never stdout, so nothing learner code prints
+// can pass for a runner message. In worker mode the learner's output travels
+// on that channel too, as {"type":"stdout"} messages: it stays in order with
+// job-done and can't spill into the next job. Docker pool workers can't have
+// an IPC channel; they use JSON lines on stdin/stdout instead, which is safe
+// for the same reason: learner output never reaches stdout raw.
+//
+// Learner code and tests run in a separate vm context with no `process`,
+// no `fetch` and no string code generation, and nothing of the host's realm
+// (see "Inside the vm context" below). Their `require` only resolves files
+// inside the workspace plus a small `vitest` shim, so fs, net, http and
+// child_process are unreachable. Writes a Jest-like report.json (the shape
+// normalizeVitestReport already understands) and exits 1 on any failure.
+
+import { on } from 'node:events';
+import fs from 'node:fs';
+import { SourceMap } from 'node:module';
+import os from 'node:os';
+import path from 'node:path';
+import readline from 'node:readline';
+import util from 'node:util';
+import vm from 'node:vm';
+import ts from 'typescript';
+
+const WORKER = process.argv[2] === '--worker';
+const IPC = typeof process.send === 'function';
+
+// Workspace of the current run (one per job in worker mode)
+let dir = WORKER ? '' : path.resolve(process.argv[2] ?? '.');
+const TEST_TIMEOUT_MS = 2000;
+const EXTENSIONS = ['', '.ts', '.js', '/index.ts', '/index.js'];
+const WRAPPER = '(function (exports, require, module, __filename, __dirname) {';
+
+// Printing never runs the value's own inspect hook: it would be handed
+// host objects (the options and `inspect` itself)
+const INSPECT = { depth: 6, breakLength: Infinity, customInspect: false };
+
+// Transpiled file → source map, so stack frames point at the learner's lines
+const sourceMaps = new Map();
+
+// Timers started by learner code (host id → handle), cleared after each job
+// so nothing keeps running into the next learner's run
+const timers = new Map();
+let nextTimerId = 1;
+
+function clearTimers() {
+  for (const t of timers.values()) clearTimeout(t); // also clears intervals
+  timers.clear();
+}
+
+// Same messages as runner/tryloop-reporter.mjs writes as JSON lines. Without
+// an IPC channel (a manual run, a docker worker) they are JSON lines too.
+const emit = (event) => {
+  const msg = { tryloop: 1, ...event };
+  if (IPC) process.send(msg);
+  else process.stdout.write(`${JSON.stringify(msg)}\n`);
+};
+
+// Learner-visible stdout: framed in worker mode (see the top)
+const out = (text) =>
+  WORKER ? emit({ type: 'stdout', text }) : process.stdout.write(text);
+
+const UI_STATES = {
+  passed: 'pass',
+  failed: 'fail',
+  skipped: 'skip',
+  todo: 'todo',
+};
+
+function errorMessage(e) {
+  if (e && typeof e === 'object' && typeof e.message === 'string') {
+    return `${e.name ?? 'Error'}: ${e.message}`;
+  }
+  return String(e);
+}
+
+// Workspace frames of a stack, mapped back to the original TS lines and
+// made relative ("at filterAdults (user-code.ts:2:31)"), like Vitest's own
+// stacks. Runner internals are left out.
+function workspaceFrames(stack) {
+  const frames = [];
+  for (const raw of stack.split('\n').slice(1)) {
+    const m = /^\s*at (?:(.*?) \()?(.+?):(\d+):(\d+)\)?$/.exec(raw);
+    if (!m || !sourceMaps.has(m[2])) continue;
+
+    let line = Number(m[3]);
+    let column = Number(m[4]);
+    if (line === 1) column -= WRAPPER.length;
+
+    const entry = sourceMaps
+      .get(m[2])
+      .findEntry(line - 1, Math.max(0, column - 1));
+    if (entry.originalLine != null) {
+      line = entry.originalLine + 1;
+      column = entry.originalColumn + 1;
+    }
+
+    const where = `${path.relative(dir, m[2])}:${line}:${column}`;
+    frames.push(m[1] ? `    at ${m[1]} (${where})` : `    at ${where}`);
+  }
+  return frames.length ? `\n${frames.join('\n')}` : '';
+}
+
+// ---------------------------------------------------------------------------
+// Inside the vm context
+//
+// Everything learner code can reach is made by `prelude`, which is compiled
+// from its source text inside the context: module, exports, require,
+// console, timers, performance and the vitest shim are all objects of the
+// context's realm. A host object there would hand learner code the host's
+// constructors (`module.constructor` is the host's Object), and through
+// them the prototypes the reporter itself runs on.
+//
+// The prelude only collects and runs tests. Which tests exist, which failed
+// and why is kept by the host (createHost below), and the prelude reports
+// to it with primitive values: an assertion is recorded as failed when it
+// fails, before the learner's code could catch it. Builtins it relies on
+// are captured before any learner code runs, so patching the context's
+// prototypes can't change how tests are run or judged. (The spec's own
+// code still shares the context's builtins with the learner's, as it does
+// under Vitest. They aren't frozen: changing any property of
+// Array.prototype takes V8 off its fast array paths, which the performance
+// budgets would measure.)
+
+function prelude(host) {
+  'use strict';
+
+  const ReflectApply = Reflect.apply;
+  const uncurryThis = Function.prototype.bind.bind(Function.prototype.call);
+  const getter = (proto, name) =>
+    uncurryThis(Object.getOwnPropertyDescriptor(proto, name).get);
+
+  const SafeMap = Map;
+  const MapGet = uncurryThis(Map.prototype.get);
+  const MapSet = uncurryThis(Map.prototype.set);
+  const MapHas = uncurryThis(Map.prototype.has);
+  const MapDelete = uncurryThis(Map.prototype.delete);
+  const MapForEach = uncurryThis(Map.prototype.forEach);
+  const MapSize = getter(Map.prototype, 'size');
+  const SetHas = uncurryThis(Set.prototype.has);
+  const SetForEach = uncurryThis(Set.prototype.forEach);
+  const SetSize = getter(Set.prototype, 'size');
+  const DateGetTime = uncurryThis(Date.prototype.getTime);
+  const RegExpExec = uncurryThis(RegExp.prototype.exec);
+  const StringIncludes = uncurryThis(String.prototype.includes);
+  const ArrayIncludes = uncurryThis(Array.prototype.includes);
+  const ObjectToString = uncurryThis(Object.prototype.toString);
+  const PromiseThen = uncurryThis(Promise.prototype.then);
+  const SafePromise = Promise;
+  const SafeRegExp = RegExp;
+  const ObjectCtor = Object;
+  const StringCtor = String;
+  const ErrorCtor = Error;
+  const SyntaxErrorCtor = SyntaxError;
+  const { is, keys, hasOwn, freeze, create, defineProperty } = Object;
+  const { isArray } = Array;
+  const { isNaN } = Number;
+  const { abs } = Math;
+
+  // Stack traces stay strings: learner code can't install a formatter that
+  // would be handed V8's call-site objects
+  defineProperty(Error, 'prepareStackTrace', { value: undefined });
+
+  // Appends to a Map used as a list (a Map's storage can't be reached
+  // through Array.prototype)
+  const append = (list, value) => MapSet(list, MapSize(list), value);
+
+  function errorMessage(e) {
+    try {
+      if (e && typeof e === 'object' && typeof e.message === 'string') {
+        return `${e.name ?? 'Error'}: ${e.message}`;
+      }
+      return StringCtor(e);
+    } catch {
+      return 'Error';
+    }
+  }
+
+  function stackOf(e) {
+    try {
+      const stack = e && typeof e === 'object' ? e.stack : '';
+      return typeof stack === 'string' ? stack : '';
+    } catch {
+      return '';
+    }
+  }
+
+  // ---- console, timers, performance
+
+  const print =
+    (stream) =>
+    (...args) =>
+      host.write(stream, `${host.format(args)}\n`);
+
+  const reportUncaught = (e) =>
+    host.write('err', `Uncaught ${errorMessage(e)}\n`);
+
+  const pending = new SafeMap(); // host timer id → { fn, args, repeat }
+
+  const schedule =
+    (repeat) =>
+    (fn, ms, ...args) => {
+      const id = host.setTimer(typeof ms === 'number' ? ms : 0, repeat);
+      MapSet(pending, id, { fn, args, repeat });
+      return id;
+    };
+
+  const cancel = (id) => {
+    MapDelete(pending, id);
+    host.clearTimer(id);
+  };
+
+  function fire(id) {
+    const timer = MapGet(pending, id);
+    if (!timer) return;
+    if (!timer.repeat) MapDelete(pending, id);
+    try {
+      ReflectApply(timer.fn, undefined, timer.args);
+    } catch (e) {
+      reportUncaught(e);
+    }
+  }
+
+  const globals = {
+    console: freeze({
+      log: print('out'),
+      info: print('out'),
+      debug: print('out'),
+      warn: print('err'),
+      error: print('err'),
+    }),
+    setTimeout: schedule(false),
+    clearTimeout: cancel,
+    setInterval: schedule(true),
+    clearInterval: cancel,
+    queueMicrotask: (fn) => {
+      PromiseThen(SafePromise.resolve(), () => {
+        try {
+          fn();
+        } catch (e) {
+          reportUncaught(e);
+        }
+      });
+    },
+    performance: freeze({ now: () => host.now() }),
+  };
+  for (const name of keys(globals)) {
+    defineProperty(globalThis, name, {
+      value: globals[name],
+      writable: true,
+      configurable: true,
+    });
+  }
+
+  // ---- assertions
+
+  class AssertionError extends ErrorCtor {
+    constructor(message) {
+      super(message);
+      this.name = 'AssertionError';
+    }
+  }
+
+  // Recorded by the host first: catching the error doesn't undo the failure
+  function fail(message) {
+    const error = new AssertionError(message);
+    host.fail(errorMessage(error), stackOf(error));
+    throw error;
+  }
+
+  const fmt = (v) => host.inspect(v);
+
+  function equals(a, b, strict) {
+    if (is(a, b)) return true;
+    if (typeof a !== 'object' || typeof b !== 'object' || !a || !b) {
+      return false;
+    }
+    const tag = ObjectToString(a);
+    if (tag !== ObjectToString(b)) return false;
+
+    if (tag === '[object Date]') return DateGetTime(a) === DateGetTime(b);
+    if (tag === '[object Map]') {
+      if (MapSize(a) !== MapSize(b)) return false;
+      let same = true;
+      MapForEach(a, (v, k) => {
+        same &&= MapHas(b, k) && equals(v, MapGet(b, k), strict);
+      });
+      return same;
+    }
+    if (tag === '[object Set]') {
+      if (SetSize(a) !== SetSize(b)) return false;
+      let same = true;
+      SetForEach(a, (v) => {
+        if (!same || SetHas(b, v)) return;
+        let found = false;
+        SetForEach(b, (w) => {
+          found ||= equals(v, w, strict);
+        });
+        same = found;
+      });
+      return same;
+    }
+    if (isArray(a)) {
+      if (a.length !== b.length) return false;
+      for (let i = 0; i < a.length; i++) {
+        if (strict && i in a !== i in b) return false;
+        if (!equals(a[i], b[i], strict)) return false;
+      }
+      return true;
+    }
+
+    // toEqual ignores undefined properties, toStrictEqual does not
+    const count = (o, names) => {
+      let n = 0;
+      for (let i = 0; i < names.length; i++) {
+        if (strict || o[names[i]] !== undefined) n++;
+      }
+      return n;
+    };
+    const ka = keys(a);
+    const kb = keys(b);
+    if (count(a, ka) !== count(b, kb)) return false;
+    for (let i = 0; i < kb.length; i++) {
+      const k = kb[i];
+      if (!strict && b[k] === undefined) continue;
+      if (!hasOwn(a, k) || !equals(a[k], b[k], strict)) return false;
+    }
+    return true;
+  }
+
+  function contains(actual, item) {
+    if (isArray(actual)) return ArrayIncludes(actual, item);
+    if (typeof actual === 'string') return StringIncludes(actual, item);
+    return (
+      actual != null &&
+      typeof actual.includes === 'function' &&
+      actual.includes(item) === true
+    );
+  }
+
+  function matchers(actual, negated) {
+    const check = (pass, what, subject = fmt(actual)) => {
+      if (!!pass === negated) {
+        fail(`expected ${subject} ${negated ? 'not ' : ''}to ${what}`);
+      }
+    };
+
+    return {
+      toBe: (expected) => check(is(actual, expected), `be ${fmt(expected)}`),
+      toEqual: (expected) =>
+        check(equals(actual, expected, false), `deeply equal ${fmt(expected)}`),
+      toStrictEqual: (expected) =>
+        check(
+          equals(actual, expected, true),
+          `strictly equal ${fmt(expected)}`,
+        ),
+      toBeTruthy: () => check(actual, 'be truthy'),
+      toBeFalsy: () => check(!actual, 'be falsy'),
+      toBeNull: () => check(actual === null, 'be null'),
+      toBeUndefined: () => check(actual === undefined, 'be undefined'),
+      toBeDefined: () => check(actual !== undefined, 'be defined'),
+      toBeNaN: () => check(isNaN(actual), 'be NaN'),
+      toContain: (item) =>
+        check(contains(actual, item), `contain ${fmt(item)}`),
+      toContainEqual: (item) => {
+        let found = false;
+        if (isArray(actual)) {
+          for (let i = 0; i < actual.length && !found; i++) {
+            found = equals(actual[i], item, false);
+          }
+        }
+        check(found, `contain equal ${fmt(item)}`);
+      },
+      toHaveLength: (n) =>
+        check(
+          actual != null && actual.length === n,
+          `have a length of ${n} but got ${actual?.length}`,
+        ),
+      toHaveProperty: (key, ...value) =>
+        check(
+          actual != null &&
+            key in ObjectCtor(actual) &&
+            (!value.length || equals(actual[key], value[0], false)),
+          `have property "${key}"`,
+        ),
+      toBeGreaterThan: (n) => check(actual > n, `be greater than ${fmt(n)}`),
+      toBeGreaterThanOrEqual: (n) =>
+        check(actual >= n, `be greater than or equal to ${fmt(n)}`),
+      toBeLessThan: (n) => check(actual < n, `be less than ${fmt(n)}`),
+      toBeLessThanOrEqual: (n) =>
+        check(actual <= n, `be less than or equal to ${fmt(n)}`),
+      toBeCloseTo: (n, digits = 2) =>
+        check(abs(actual - n) < 10 ** -digits / 2, `be close to ${fmt(n)}`),
+      toMatch: (re) =>
+        check(
+          typeof actual === 'string' &&
+            (typeof re === 'string'
+              ? StringIncludes(actual, re)
+              : RegExpExec(re, actual) !== null),
+          `match ${fmt(re)}`,
+        ),
+      toThrow: (expected) => {
+        let threw = false;
+        let error;
+        try {
+          actual();
+        } catch (e) {
+          threw = true;
+          error = e;
+        }
+        const msg = StringCtor(error?.message ?? error ?? '');
+        const matches =
+          expected == null ||
+          (typeof expected === 'string' && StringIncludes(msg, expected)) ||
+          (expected instanceof SafeRegExp && RegExpExec(expected, msg)) ||
+          (typeof expected === 'function' && error instanceof expected);
+        check(
+          threw && matches,
+          `throw${expected ? ` ${fmt(expected)}` : ''}`,
+          'function',
+        );
+      },
+    };
+  }
+
+  const expect = (actual) =>
+    freeze({ ...matchers(actual, false), not: freeze(matchers(actual, true)) });
+
+  // ---- describe / it
+
+  const hooksOf = (parent) => ({
+    beforeEach: new SafeMap(),
+    afterEach: new SafeMap(),
+    parent,
+  });
+
+  const tests = new SafeMap(); // host test id → { fn, suite }
+  let suite = hooksOf(null); // innermost describe
+
+  const describe = (title, fn) => {
+    host.enterSuite(StringCtor(title));
+    suite = hooksOf(suite);
+    try {
+      fn();
+    } finally {
+      suite = suite.parent;
+      host.leaveSuite();
+    }
+  };
+  describe.skip = () => {};
+  describe.only = describe;
+
+  const add = (title, fn, mode, timeout) => {
+    const id = host.addTest(
+      StringCtor(title),
+      mode,
+      typeof timeout === 'number' ? timeout : 0,
+    );
+    if (id) MapSet(tests, id, { fn, suite });
+  };
+
+  const it = (title, fn, timeout) => add(title, fn, 'run', timeout);
+  it.skip = (title) => add(title, null, 'skip');
+  it.todo = (title) => add(title, null, 'todo');
+  it.only = it;
+
+  const vitest = freeze({
+    describe: freeze(describe),
+    it: freeze(it),
+    test: it,
+    expect,
+    beforeEach: (fn) => append(suite.beforeEach, fn),
+    afterEach: (fn) => append(suite.afterEach, fn),
+  });
+
+  // ---- modules
+
+  const modules = new SafeMap(); // file → module
+
+  function load(file) {
+    if (MapHas(modules, file)) return MapGet(modules, file).exports;
+
+    const wrapper = host.compile(file);
+    if (typeof wrapper === 'string') throw new SyntaxErrorCtor(wrapper);
+
+    const mod = { exports: {} };
+    MapSet(modules, file, mod);
+    const require = (id) => {
+      if (id === 'vitest') return vitest;
+      if (typeof id !== 'string' || id[0] !== '.') {
+        throw new ErrorCtor(
+          `[TryLoop] Module "${id}" is not available in the sandbox`,
+        );
+      }
+      const resolved = host.resolve(file, id);
+      if (!resolved)
+        throw new ErrorCtor(`[TryLoop] Cannot find module "${id}"`);
+      return load(resolved);
+    };
+    wrapper(mod.exports, require, mod, file, host.dirname(file));
+    return mod.exports;
+  }
+
+  // ---- running tests
+
+  // Calls the steps one after another, waiting for the promises they
+  // return, then done(failed, error). Promises are followed with the
+  // captured `then`: `await` looks up `constructor` and `then` on them,
+  // which learner code can patch to turn a rejection into a fulfilment.
+  function runSteps(steps, index, done) {
+    if (index === MapSize(steps)) return done(false);
+    let result;
+    try {
+      result = MapGet(steps, index)();
+    } catch (e) {
+      return done(true, e);
+    }
+    if (!host.isPromise(result)) return runSteps(steps, index + 1, done);
+    try {
+      PromiseThen(
+        result,
+        () => runSteps(steps, index + 1, done),
+        (e) => done(true, e),
+      );
+    } catch (e) {
+      done(true, e);
+    }
+  }
+
+  // Copies the performance harness's timings (task.meta.tryloopPerf) to the
+  // host, one number at a time
+  function sendPerf(meta) {
+    const perf = meta.tryloopPerf;
+    if (!perf || typeof perf !== 'object') return;
+    try {
+      const samples = perf.samples;
+      const count = isArray(samples) ? samples.length : 0;
+      for (let i = 0; i < count; i++) {
+        host.perfSample(samples[i]?.n, samples[i]?.ms);
+      }
+      host.perfEnd(perf.stoppedAt, perf.error);
+    } catch {
+      host.perfEnd(undefined, 'Error: the timings could not be read');
+    }
+  }
+
+  function runTest(id, title) {
+    const test = MapGet(tests, id);
+
+    // beforeEach outermost first, then the test, then afterEach innermost
+    // first
+    const chain = new SafeMap();
+    for (let s = test.suite; s; s = s.parent) append(chain, s);
+    const steps = new SafeMap();
+    for (let i = MapSize(chain) - 1; i >= 0; i--) {
+      MapForEach(MapGet(chain, i).beforeEach, (h) => append(steps, h));
+    }
+    // Like Vitest's test context: the performance harness leaves its
+    // timings in task.meta, out of reach of the learner's code
+    const task = { name: title, meta: create(null) };
+    append(steps, () => test.fn({ task }));
+    for (let i = 0; i < MapSize(chain); i++) {
+      MapForEach(MapGet(chain, i).afterEach, (h) => append(steps, h));
+    }
+
+    runSteps(steps, 0, (failed, error) => {
+      sendPerf(task.meta);
+      host.settle(
+        id,
+        failed ? errorMessage(error) : '',
+        failed ? stackOf(error) : '',
+      );
+    });
+  }
+
+  function loadSpec(file) {
+    try {
+      load(file);
+      return '';
+    } catch (e) {
+      return errorMessage(e);
+    }
+  }
+
+  return freeze({ loadSpec, runTest, fire });
+}
+
+// ---------------------------------------------------------------------------
+// Host side
+
+function resolveModule(fromFile, id) {
+  const base = path.resolve(path.dirname(fromFile), id);
+  for (const ext of EXTENSIONS) {
+    const candidate = base + ext;
+    if (!candidate.startsWith(dir + path.sep)) break;
+    if (fs.existsSync(candidate) && fs.statSync(candidate).isFile())
+      return candidate;
+  }
+  return '';
+}
+
+// Transpiles a workspace file and compiles it inside the context; returns
+// the module wrapper (a function of the context) or a syntax error message.
+function compileModule(context, file) {
+  const source = fs.readFileSync(file, 'utf8');
+  const {
+    outputText,
+    sourceMapText,
+    diagnostics = [],
+  } = ts.transpileModule(source, {
+    fileName: file,
+    reportDiagnostics: true,
+    compilerOptions: {
+      sourceMap: true,
+      module: ts.ModuleKind.CommonJS,
+      target: ts.ScriptTarget.ES2020,
+      esModuleInterop: true,
+    },
+  });
+
+  // transpileModule only reports syntax errors, which is what we want here
+  if (diagnostics.length) {
+    const d = diagnostics[0];
+    const { line, character } = d.file.getLineAndCharacterOfPosition(
+      d.start ?? 0,
+    );
+    const text = ts.flattenDiagnosticMessageText(d.messageText, '\n');
+    return `${text} (${path.basename(file)}:${line + 1}:${character + 1})`;
+  }
+
+  if (sourceMapText)
+    sourceMaps.set(file, new SourceMap(JSON.parse(sourceMapText)));
+  try {
+    return new vm.Script(`${WRAPPER}${outputText}\n})`, {
+      filename: file,
+    }).runInContext(context);
+  } catch (e) {
+    return `${e.message} (${path.basename(file)})`;
+  }
+}
+
+const num = (v) => (typeof v === 'number' ? v : undefined);
+const str = (v) => (typeof v === 'string' ? v : '');
+
+// The functions `prelude` gets, and the reporter state behind them. They
+// take primitives (format and inspect take values to print), return
+// primitives or context functions, and never throw: a host error reaching
+// the context would leak the host's constructors just the same.
+function createHost(context, state) {
+  const safe =
+    (fn, fallback) =>
+    (...args) => {
+      try {
+        return fn(...args);
+      } catch {
+        return fallback;
+      }
+    };
+
+  return {
+    resolve: safe(
+      (fromFile, id) =>
+        typeof fromFile === 'string' && typeof id === 'string'
+          ? resolveModule(fromFile, id)
+          : '',
+      '',
+    ),
+    dirname: safe((file) => path.dirname(str(file)), ''),
+    compile: safe(
+      (file) =>
+        typeof file === 'string'
+          ? compileModule(context, file)
+          : 'Cannot load the module',
+      'Cannot load the module',
+    ),
+    format: safe(
+      (args) =>
+        util.formatWithOptions(
+          INSPECT,
+          ...Array.from({ length: args.length }, (_, i) => args[i]),
+        ),
+      '',
+    ),
+    inspect: safe((value) => util.inspect(value, INSPECT), '[value]'),
+    write: safe((stream, text) => {
+      if (typeof text !== 'string') return;
+      if (stream === 'err') process.stderr.write(text);
+      else out(text);
+    }),
+    now: safe(() => performance.now(), 0),
+    isPromise: safe((value) => util.types.isPromise(value), false),
+
+    setTimer: safe((ms, repeat) => {
+      const id = nextTimerId++;
+      const fire = () => {
+        if (!repeat) timers.delete(id);
+        try {
+          state.fire(id);
+        } catch {
+          // reported inside the context
+        }
+      };
+      timers.set(
+        id,
+        repeat === true
+          ? setInterval(fire, num(ms))
+          : setTimeout(fire, num(ms)),
+      );
+      return id;
+    }, 0),
+    clearTimer: safe((id) => {
+      clearTimeout(timers.get(id));
+      timers.delete(id);
+    }),
+
+    enterSuite: safe((title) => state.suites.push(str(title))),
+    leaveSuite: safe(() => state.suites.pop()),
+    addTest: safe((title, mode, timeout) => {
+      if (state.running) return 0;
+      const test = {
+        id: state.tests.length + 1,
+        title: str(title),
+        mode: ['run', 'skip', 'todo'].includes(mode) ? mode : 'run',
+        timeout: num(timeout) || TEST_TIMEOUT_MS,
+        suites: [...state.suites],
+        failures: [],
+        settle: null,
+        perf: null,
+      };
+      state.tests.push(test);
+      return test.id;
+    }, 0),
+
+    fail: safe((message, stack) => {
+      state.current?.failures.push(str(message) + workspaceFrames(str(stack)));
+    }),
+    settle: safe((id, message, stack) => {
+      const test = state.current;
+      if (!test || test.id !== id) return;
+      if (str(message) && !test.failures.length) {
+        test.failures.push(str(message) + workspaceFrames(str(stack)));
+      }
+      test.settle();
+    }),
+    perfSample: safe((n, ms) => {
+      const test = state.current;
+      if (test) (test.perf ??= []).push({ n: num(n), ms: num(ms) });
+    }),
+    perfEnd: safe((stoppedAt, error) => {
+      const test = state.current;
+      if (!test) return;
+      emit({
+        type: 'perf',
+        samples: test.perf ?? [],
+        stoppedAt: num(stoppedAt),
+        error: str(error) || undefined,
+      });
+      test.perf = null;
+    }),
+  };
+}
+
+// Runs one test in the context and waits for it to settle or time out
+function runTest(state, runInContext, test) {
+  return new Promise((resolve) => {
+    const timer = setTimeout(() => {
+      test.failures.push(`Error: Test timed out in ${test.timeout}ms`);
+      resolve();
+    }, test.timeout);
+    test.settle = () => {
+      clearTimeout(timer);
+      resolve();
+    };
+    state.current = test;
+    try {
+      runInContext(test.id, test.title);
+    } catch {
+      test.failures.push('Error: [TryLoop] The test could not be started');
+      test.settle();
+    }
+  }).finally(() => {
+    state.current = null;
+  });
+}
+
+async function runSpecFile(file) {
+  const context = vm.createContext(
+    {},
+    { codeGeneration: { strings: false, wasm: false } },
+  );
+  const state = {
+    suites: [],
+    tests: [],
+    running: false,
+    current: null,
+    fire: null,
+  };
+  const api = new vm.Script(`(${prelude})`, {
+    filename: 'tryloop:sandbox',
+  }).runInContext(context)(createHost(context, state));
+  const { loadSpec, runTest: runInContext, fire } = api;
+  state.fire = fire;
+
+  const result = { name: file, assertionResults: [], message: '' };
+
+  const loadError = str(loadSpec(file));
+  if (loadError) {
+    result.message = loadError;
+    console.error(
+      `[TryLoop] Failed to load ${path.basename(file)}\n${result.message}`,
+    );
+    return result;
+  }
+
+  state.running = true;
+  for (const test of state.tests) {
+    if (test.mode === 'run') await runTest(state, runInContext, test);
+
+    const ancestorTitles = test.suites;
+    const entry = {
+      ancestorTitles,
+      fullName: [...ancestorTitles, test.title].join(' '),
+      title: test.title,
+      status:
+        test.mode === 'skip'
+          ? 'skipped'
+          : test.mode === 'todo'
+            ? 'todo'
+            : test.failures.length
+              ? 'failed'
+              : 'passed',
+      failureMessages: test.failures,
+    };
+
+    result.assertionResults.push(entry);
+    emit({
+      type: 'test',
+      suites: ancestorTitles,
+      test: {
+        name: entry.fullName,
+        state: UI_STATES[entry.status],
+        file,
+        error: entry.failureMessages.join('\n') || undefined,
+      },
+    });
+  }
+
+  return result;
+}
+
+// Runs every spec file in `dir`, writes report.json; true when all passed.
+async function runWorkspace() {
+  const specs = fs
+    .readdirSync(dir)
+    .filter((f) => f.endsWith('.spec.ts'))
+    .sort()
+    .map((f) => path.join(dir, f));
+
+  emit({ type: 'run-start', files: specs.length });
+
+  const testResults = [];
+  for (const file of specs) testResults.push(await runSpecFile(file));
+
+  const success =
+    specs.length > 0 &&
+    testResults.every(
+      (r) =>
+        !r.message && r.assertionResults.every((a) => a.status !== 'failed'),
+    );
+
+  emit({ type: 'run-end', reason: success ? 'passed' : 'failed' });
+  fs.writeFileSync(
+    path.join(dir, 'report.json'),
+    JSON.stringify({ success, testResults }),
+  );
+
+  const all = testResults.flatMap((r) => r.assertionResults);
+  const failed = all.filter((a) => a.status === 'failed').length;
+  out(`[TryLoop] ${all.length - failed} passed, ${failed} failed\n`);
+
+  return success;
+}
+
+async function runJob(id, files) {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'tryloop-job-'));
+  sourceMaps.clear();
+
+  let exitCode = 1;
+  let report = null;
+  try {
+    for (const [rel, content] of Object.entries(files)) {
+      const target = path.join(dir, rel);
+      if (!target.startsWith(dir + path.sep)) {
+        throw new Error(`Refusing to write outside workspace: ${rel}`);
+      }
+      fs.mkdirSync(path.dirname(target), { recursive: true });
+      fs.writeFileSync(target, content, 'utf8');
+    }
+    exitCode = (await runWorkspace()) ? 0 : 1;
+    report = JSON.parse(fs.readFileSync(path.join(dir, 'report.json'), 'utf8'));
+  } catch (e) {
+    console.error(`[TryLoop] Sandbox crashed: ${errorMessage(e)}`);
+  } finally {
+    clearTimers();
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+  emit({ type: 'job-done', id, exitCode, report });
+}
+
+// Messages from the pool, one at a time; ends when the pool lets go of the
+// worker (IPC disconnect, or end of stdin)
+async function* incoming() {
+  if (IPC) {
+    const done = new AbortController();
+    process.once('disconnect', () => done.abort());
+    try {
+      for await (const [msg] of on(process, 'message', {
+        signal: done.signal,
+      })) {
+        yield msg;
+      }
+    } catch (e) {
+      if (e.name !== 'AbortError') throw e;
+    }
+    return;
+  }
+  for await (const line of readline.createInterface({
+    input: process.stdin,
+  })) {
+    try {
+      yield JSON.parse(line);
+    } catch {
+      // not a message
+    }
+  }
+}
+
+async function worker() {
+  emit({ type: 'ready' });
+  for await (const msg of incoming()) {
+    if (msg?.type === 'ping') emit({ type: 'pong' });
+    if (msg?.type === 'job') await runJob(msg.id, msg.files ?? {});
+  }
+}
+
+if (WORKER) {
+  worker().catch((e) => {
+    console.error(`[TryLoop] Worker crashed: ${errorMessage(e)}`);
+    process.exit(1);
+  });
+} else {
+  runWorkspace()
+    .then((success) => {
+      process.exitCode = success ? 0 : 1;
+    })
+    .catch((e) => {
+      console.error(`[TryLoop] Sandbox crashed: ${errorMessage(e)}`);
+      process.exitCode = 1;
+    });
+}
@@ -0,0 +1,190 @@
+"""TryLoop property checks: seeded generators with shrinking, shipped into the
+workspace next to a loop's properties module (lib/property/harness.ts).
+Same generators and checks as runner/tryloop-property.ts, in snake_case.
+
+    from tryloop_property import gen
+
+    ARGS = gen.tuple(gen.array(gen.record({"age": gen.integer(0, 100)})))
+    PROPERTIES = {
+        "every output item has age >= 18":
+            lambda run: all(u["age"] >= 18 for u in run.output),
+    }
+"""
+
+import copy
+import json
+import random
+from types import SimpleNamespace
+
+MAX_SIZE = 20
+MAX_SHRINKS = 1000
+LETTERS = "abcdefghijklmnopqrstuvwxyz"
+
+
+class Gen:
+    """`size` grows over the runs, so early runs try small inputs. `shrink`
+    yields simpler values, simplest first."""
+
+    def __init__(self, generate, shrink):
+        self.generate = generate  # (rng, size) -> value
+        self.shrink = shrink  # value -> iterable of values
+
+
+def _shrink_integer(value, target):
+    if value == target:
+        return
+    yield target
+    d = int((value - target) / 2)
+    while d != 0:
+        yield value - d
+        d = int(d / 2)
+
+
+def _shrink_list(items, item, min_length):
+    if len(items) > min_length:
+        if min_length == 0:
+            yield []
+        for i in range(len(items)):
+            yield items[:i] + items[i + 1:]
+    for i, value in enumerate(items):
+        for smaller in item.shrink(value):
+            yield items[:i] + [smaller] + items[i + 1:]
+
+
+def _integer(min_value=-100, max_value=100):
+    if min_value <= 0 <= max_value:
+        target = 0
+    else:
+        target = min_value if min_value > 0 else max_value
+    return Gen(
+        lambda rng, size: rng.randint(min_value, max_value),
+        lambda value: _shrink_integer(value, target),
+    )
+
+
+def _array(item, min_length=0, max_length=20):
+    def generate(rng, size):
+        length = rng.randint(min_length, max(min_length, min(max_length, size)))
+        return [item.generate(rng, size) for _ in range(length)]
+
+    return Gen(generate, lambda value: _shrink_list(value, item, min_length))
+
+
+def _one_of(*values):
+    # Shrinks towards the first value
+    return Gen(
+        lambda rng, size: values[rng.randrange(len(values))],
+        lambda value: values[: values.index(value)],
+    )
+
+
+def _string(min_length=0, max_length=20, alphabet=LETTERS):
+    chars = _array(_one_of(*alphabet), min_length, max_length)
+    return Gen(
+        lambda rng, size: "".join(chars.generate(rng, size)),
+        lambda value: ("".join(s) for s in chars.shrink(list(value))),
+    )
+
+
+def _tuple(*items):
+    def shrink(value):
+        for i, item in enumerate(items):
+            for smaller in item.shrink(value[i]):
+                yield value[:i] + [smaller] + value[i + 1:]
+
+    # Argument lists are lists, like the JSON the examples use
+    return Gen(lambda rng, size: [g.generate(rng, size) for g in items], shrink)
+
+
+def _record(fields):
+    def shrink(value):
+        for key, field in fields.items():
+            for smaller in field.shrink(value[key]):
+                yield {**value, key: smaller}
+
+    return Gen(
+        lambda rng, size: {k: g.generate(rng, size) for k, g in fields.items()},
+        shrink,
+    )
+
+
+gen = SimpleNamespace(
+    integer=_integer,
+    nat=lambda max_value=100: _integer(0, max_value),
+    boolean=lambda: Gen(
+        lambda rng, size: rng.random() < 0.5,
+        lambda value: [False] if value else [],
+    ),
+    constant=lambda value: Gen(lambda rng, size: value, lambda value: []),
+    one_of=_one_of,
+    string=_string,
+    array=_array,
+    tuple=_tuple,
+    record=_record,
+)
+
+
+def _show(value):
+    return json.dumps(value)
+
+
+def _describe_error(e):
+    return f"{type(e).__name__}: {e}"
+
+
+def _failure(fn, check, args):
+    """Why `check` fails on `args`, or None when it holds. The check gets
+    `run.args` (after the call: the function may have changed them),
+    `run.before` (a copy taken before it) and `run.output`."""
+    before = copy.deepcopy(args)
+    called = copy.deepcopy(args)
+    try:
+        output = fn(*called)
+    except Exception as e:
+        return f"threw {_describe_error(e)}"
+    try:
+        if check(SimpleNamespace(args=called, before=before, output=output)) is False:
+            return f"returned {_show(output)}"
+    except Exception as e:
+        return f"returned {_show(output)}: {_describe_error(e)}"
+    return None
+
+
+def check_property(call, fn, args, check, runs, seed):
+    """Runs `check` on `runs` generated inputs; on the first failure, shrinks
+    the input as far as it still fails and raises with it."""
+    __tracebackhide__ = True  # pytest: report the counterexample, not this code
+    if not callable(fn):
+        raise AssertionError(f"{call} is not defined")
+    rng = random.Random(seed)
+
+    for run in range(1, runs + 1):
+        size = -(-run * MAX_SIZE // runs)
+        value = args.generate(rng, size)
+        reason = _failure(fn, check, value)
+        if reason is None:
+            continue
+
+        shrinks = 0
+        attempts = 0
+        shrinking = True
+        while shrinking and attempts < MAX_SHRINKS:
+            shrinking = False
+            for candidate in args.shrink(value):
+                attempts += 1
+                if attempts > MAX_SHRINKS:
+                    break
+                candidate_reason = _failure(fn, check, candidate)
+                if candidate_reason is not None:
+                    value = candidate
+                    reason = candidate_reason
+                    shrinks += 1
+                    shrinking = True
+                    break
+
+        shown = ", ".join(_show(a) for a in value)
+        raise AssertionError(
+            f"Property failed on run {run} of {runs} (seed {seed}), shrunk {shrinks} {'time' if shrinks == 1 else 'times'}.\n"
+            f"Counterexample: {call}({shown})\n"
+            f"It {reason}"
+        )
@@ -0,0 +1,120 @@
+"""pytest plugin for TryLoop: streams progress as JSON lines on stdout and
+writes report.json.
+
+Same protocol as runner/tryloop-reporter.mjs: one object per line, tagged
+with "tryloop": 1 and the run's nonce so the server can pick them out of the
+rest of the output.
+report.json follows the pytest-json-report shape ({"tests": [{"nodeid",
+"outcome", "setup", "call", "teardown"}]}), which normalizePytestReport
+reads.
+
+    python -m pytest -p tryloop_pytest   (with this folder on PYTHONPATH)
+"""
+
+import json
+import re
+import sys
+
+STATES = {
+    "passed": "pass",
+    "xpassed": "pass",
+    "failed": "fail",
+    "error": "fail",
+    "skipped": "skip",
+    "xfailed": "skip",
+}
+
+
+# The server writes the nonce to stdin. -p plugins are imported before pytest
+# starts capturing (which swaps stdin for /dev/null) and before any test
+# module is collected. pytest runs the tests in this process, though, so
+# unlike the vitest reporter this keeps learner prints from passing as
+# events but not a test that goes looking for the nonce.
+_NONCE = sys.stdin.read().strip()
+
+
+def _emit(event):
+    line = json.dumps({"tryloop": 1, "nonce": _NONCE, **event}, separators=(",", ":"))
+    sys.stdout.write(line + "\n")
+    sys.stdout.flush()
+
+
+def _suite_title(class_name):
+    # TestEdgeCases -> "edge cases" (same rule as pytestSuiteTitle)
+    name = re.sub(r"^Test", "", class_name)
+    name = re.sub(r"([a-z0-9])([A-Z])", r"\1 \2", name)
+    return name.replace("_", " ").strip().lower()
+
+
+def _outcome(phases):
+    setup, call, teardown = (phases.get(w) for w in ("setup", "call", "teardown"))
+    if setup and setup["outcome"] == "failed":
+        return "error"
+    if setup and setup["outcome"] == "skipped":
+        return "xfailed" if setup.get("wasxfail") else "skipped"
+    if call:
+        if call.get("wasxfail"):
+            return "xfailed" if call["outcome"] == "skipped" else "xpassed"
+        if call["outcome"] == "passed" and teardown and teardown["outcome"] == "failed":
+            return "error"
+        return call["outcome"]
+    return "error" if teardown and teardown["outcome"] == "failed" else "skipped"
+
+
+class TryLoopPlugin:
+    def __init__(self):
+        self.phases = {}  # nodeid -> {"setup": {...}, "call": {...}, ...}
+        self.tests = []
+
+    def pytest_collection_finish(self, session):
+        files = {item.nodeid.split("::")[0] for item in session.items}
+        _emit({"type": "run-start", "files": len(files)})
+
+    def pytest_runtest_logreport(self, report):
+        phase = {"outcome": report.outcome}
+        if report.failed:
+            phase["longrepr"] = report.longreprtext
+            crash = getattr(report.longrepr, "reprcrash", None)
+            if crash is not None:
+                phase["crash"] = {
+                    "path": crash.path,
+                    "lineno": crash.lineno,
+                    "message": crash.message,
+                }
+        if hasattr(report, "wasxfail"):
+            phase["wasxfail"] = report.wasxfail
+
+        # The performance harness attaches its timings to its own test
+        for name, value in report.user_properties:
+            if name == "tryloop_perf" and report.when == "call":
+                _emit({"type": "perf", **value})
+
+        phases = self.phases.setdefault(report.nodeid, {})
+        phases[report.when] = phase
+        if report.when == "teardown":
+            self._finish(report.nodeid, phases)
+
+    def _finish(self, nodeid, phases):
+        outcome = _outcome(phases)
+        self.tests.append({"nodeid": nodeid, "outcome": outcome, **phases})
+
+        file, *parts = nodeid.split("::")
+        suites = [_suite_title(c) for c in parts[:-1]]
+        test = {
+            "name": " ".join(parts),
+            "state": STATES.get(outcome, "unknown"),
+            "file": file,
+        }
+        failed = [p for p in phases.values() if p["outcome"] == "failed"]
+        if failed:
+            test["error"] = failed[0].get("longrepr")
+        _emit({"type": "test", "suites": suites, "test": test})
+
+    def pytest_sessionfinish(self, session, exitstatus):
+        with open("report.json", "w", encoding="utf-8") as f:
+            json.dump({"exitcode": int(exitstatus), "tests": self.tests}, f)
+        _emit({"type": "run-end", "reason": "passed" if exitstatus == 0 else "failed"})
+
+
+def pytest_configure(config):
+    config.pluginmanager.register(TryLoopPlugin(), "tryloop")
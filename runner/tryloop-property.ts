@@ -0,0 +1,276 @@
+// TryLoop property checks: seeded generators with shrinking, shipped into the
+// workspace next to a loop's properties module (lib/property/harness.ts).
+// Plain TypeScript with no imports, so every runner backend can run it.
+//
+//   import { gen, type Properties } from './tryloop-property';
+//
+//   export const args = gen.tuple(gen.array(gen.record({ age: gen.integer(0, 100) })));
+//   export const properties: Properties<[{ age: number }[]], { age: number }[]> = {
+//     'every output item has age >= 18': ({ output }) => output.every((u) => u.age >= 18),
+//   };
+
+export type Rng = {
+  next: () => number; // [0, 1)
+  int: (min: number, max: number) => number; // inclusive
+};
+
+// mulberry32: tiny, fast and the same sequence on every machine
+export function createRng(seed: number): Rng {
+  let a = seed >>> 0;
+  const next = () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+  return {
+    next,
+    int: (min, max) => min + Math.floor(next() * (max - min + 1)),
+  };
+}
+
+// `size` grows over the runs, so early runs try small inputs. `shrink`
+// lists simpler values, simplest first.
+export type Gen<T> = {
+  generate: (rng: Rng, size: number) => T;
+  shrink: (value: T) => Iterable<T>;
+};
+
+function* shrinkInteger(value: number, target: number) {
+  if (value === target) return;
+  yield target;
+  let d = Math.trunc((value - target) / 2);
+  while (d !== 0) {
+    yield value - d;
+    d = Math.trunc(d / 2);
+  }
+}
+
+function* shrinkList<T>(items: T[], item: Gen<T>, minLength: number) {
+  if (items.length > minLength) {
+    if (minLength === 0) yield [];
+    for (let i = 0; i < items.length; i++) {
+      yield [...items.slice(0, i), ...items.slice(i + 1)];
+    }
+  }
+  for (let i = 0; i < items.length; i++) {
+    for (const smaller of item.shrink(items[i])) {
+      yield [...items.slice(0, i), smaller, ...items.slice(i + 1)];
+    }
+  }
+}
+
+type ListOptions = { minLength?: number; maxLength?: number };
+
+function integer(min = -100, max = 100): Gen<number> {
+  const target = min <= 0 && max >= 0 ? 0 : min > 0 ? min : max;
+  return {
+    generate: (rng) => rng.int(min, max),
+    shrink: (value) => shrinkInteger(value, target),
+  };
+}
+
+function array<T>(item: Gen<T>, options: ListOptions = {}): Gen<T[]> {
+  const { minLength = 0, maxLength = 20 } = options;
+  return {
+    generate: (rng, size) => {
+      const length = rng.int(
+        minLength,
+        Math.max(minLength, Math.min(maxLength, size)),
+      );
+      return Array.from({ length }, () => item.generate(rng, size));
+    },
+    shrink: (value) => shrinkList(value, item, minLength),
+  };
+}
+
+const LETTERS = 'abcdefghijklmnopqrstuvwxyz';
+
+export const gen = {
+  integer,
+  nat: (max = 100) => integer(0, max),
+  boolean: (): Gen<boolean> => ({
+    generate: (rng) => rng.next() < 0.5,
+    shrink: (value) => (value ? [false] : []),
+  }),
+  constant: <T>(value: T): Gen<T> => ({
+    generate: () => value,
+    shrink: () => [],
+  }),
+  // Shrinks towards the first value
+  oneOf: <T>(...values: T[]): Gen<T> => ({
+    generate: (rng) => values[rng.int(0, values.length - 1)],
+    shrink: (value) => values.slice(0, values.indexOf(value)),
+  }),
+  string: (options: ListOptions & { alphabet?: string } = {}): Gen<string> => {
+    const chars = [...(options.alphabet ?? LETTERS)];
+    const list = array(gen.oneOf(...chars), options);
+    return {
+      generate: (rng, size) => list.generate(rng, size).join(''),
+      shrink: function* (value) {
+        for (const smaller of list.shrink([...value])) yield smaller.join('');
+      },
+    };
+  },
+  array,
+  tuple: <T extends unknown[]>(
+    ...items: { [K in keyof T]: Gen<T[K]> }
+  ): Gen<T> => ({
+    generate: (rng, size) => items.map((g) => g.generate(rng, size)) as T,
+    shrink: function* (value) {
+      for (let i = 0; i < items.length; i++) {
+        for (const smaller of items[i].shrink(value[i])) {
+          const next = [...value] as T;
+          next[i] = smaller;
+          yield next;
+        }
+      }
+    },
+  }),
+  record: <T extends Record<string, unknown>>(fields: {
+    [K in keyof T]: Gen<T[K]>;
+  }): Gen<T> => ({
+    generate: (rng, size) => {
+      const out = {} as T;
+      for (const key in fields) out[key] = fields[key].generate(rng, size);
+      return out;
+    },
+    shrink: function* (value) {
+      for (const key in fields) {
+        for (const smaller of fields[key].shrink(value[key])) {
+          yield { ...value, [key]: smaller };
+        }
+      }
+    },
+  }),
+};
+
+// `args` are the arguments after the call (the function may have changed
+// them), `before` a copy taken before it. Return false or throw to fail.
+export type PropertyCheck<TArgs extends unknown[], TOutput> = (run: {
+  args: TArgs;
+  before: TArgs;
+  output: TOutput;
+}) => boolean | void;
+
+export type Properties<TArgs extends unknown[], TOutput> = Record<
+  string,
+  PropertyCheck<TArgs, TOutput>
+>;
+
+// JSON-like data only: what generators produce
+export function clone<T>(value: T): T {
+  if (Array.isArray(value)) return value.map(clone) as T;
+  if (value && typeof value === 'object') {
+    const out: Record<string, unknown> = {};
+    for (const [k, v] of Object.entries(value)) out[k] = clone(v);
+    return out as T;
+  }
+  return value;
+}
+
+export function deepEqual(a: unknown, b: unknown): boolean {
+  if (Object.is(a, b)) return true;
+  if (Array.isArray(a) || Array.isArray(b)) {
+    return (
+      Array.isArray(a) &&
+      Array.isArray(b) &&
+      a.length === b.length &&
+      a.every((v, i) => deepEqual(v, b[i]))
+    );
+  }
+  if (!a || !b || typeof a !== 'object' || typeof b !== 'object') return false;
+  const ka = Object.keys(a);
+  const kb = Object.keys(b);
+  return (
+    ka.length === kb.length &&
+    ka.every((k) =>
+      deepEqual(
+        (a as Record<string, unknown>)[k],
+        (b as Record<string, unknown>)[k],
+      ),
+    )
+  );
+}
+
+function show(value: unknown): string {
+  return value === undefined ? 'undefined' : JSON.stringify(value);
+}
+
+function describeError(e: unknown) {
+  return e instanceof Error ? `${e.name}: ${e.message}` : String(e);
+}
+
+const MAX_SIZE = 20;
+const MAX_SHRINKS = 1000;
+
+// Why `check` fails on `args`, or null when it holds
+function failure<TArgs extends unknown[], TOutput>(
+  fn: (...args: TArgs) => TOutput,
+  check: PropertyCheck<TArgs, TOutput>,
+  args: TArgs,
+): string | null {
+  const before = clone(args);
+  const called = clone(args);
+  let output: TOutput;
+  try {
+    output = fn(...called);
+  } catch (e) {
+    return `threw ${describeError(e)}`;
+  }
+  try {
+    if (check({ args: called, before, output }) === false) {
+      return `returned ${show(output)}`;
+    }
+  } catch (e) {
+    return `returned ${show(output)}: ${describeError(e)}`;
+  }
+  return null;
+}
+
+// Runs `check` on `runs` generated inputs; on the first failure, shrinks
+// the input as far as it still fails and throws with it.
+export function checkProperty<TArgs extends unknown[], TOutput>(options: {
+  call: string;
+  fn: (...args: TArgs) => TOutput;
+  args: Gen<TArgs>;
+  check: PropertyCheck<TArgs, TOutput>;
+  runs: number;
+  seed: number;
+}) {
+  const { call, fn, args, check, runs, seed } = options;
+  if (typeof fn !== 'function') throw new Error(`${call} is not exported`);
+  const rng = createRng(seed);
+
+  for (let run = 1; run <= runs; run++) {
+    const size = Math.ceil((run / runs) * MAX_SIZE);
+    let input = args.generate(rng, size);
+    let reason = failure(fn, check, input);
+    if (reason == null) continue;
+
+    let shrinks = 0;
+    let attempts = 0;
+    let shrinking = true;
+    while (shrinking && attempts < MAX_SHRINKS) {
+      shrinking = false;
+      for (const candidate of args.shrink(input)) {
+        if (++attempts > MAX_SHRINKS) break;
+        const candidateReason = failure(fn, check, candidate);
+        if (candidateReason != null) {
+          input = candidate;
+          reason = candidateReason;
+          shrinks++;
+          shrinking = true;
+          break;
+        }
+      }
+    }
+
+    throw new Error(
+      `Property failed on run ${run} of ${runs} (seed ${seed}), shrunk ${shrinks} ${shrinks === 1 ? 'time' : 'times'}.\n` +
+        `Counterexample: ${call}(${input.map(show).join(', ')})\n` +
+        `It ${reason}`,
+    );
+  }
+}
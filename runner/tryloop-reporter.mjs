@@ -0,0 +1,65 @@
+// Vitest reporter that streams progress as JSON lines on stdout, one object per
+// line, each tagged with `"tryloop": 1` and the run's nonce so the server can
+// pick them out of the rest of the output. The json reporter still writes
+// report.json, which stays the source of truth for the final result.
+
+import { readFileSync } from 'node:fs';
+
+// The server writes the nonce to stdin. The reporter is loaded with the config,
+// before any test worker starts, so by the time learner code runs stdin is
+// drained and the nonce only lives in this process.
+const NONCE = readFileSync(0, 'utf8').trim();
+
+const emit = (event) =>
+  process.stdout.write(
+    `${JSON.stringify({ tryloop: 1, nonce: NONCE, ...event })}\n`,
+  );
+
+const STATES = { passed: 'pass', failed: 'fail', skipped: 'skip' };
+
+function suiteTitles(testCase) {
+  const titles = [];
+  for (let p = testCase.parent; p && p.type === 'suite'; p = p.parent) {
+    titles.unshift(p.name);
+  }
+  return titles;
+}
+
+export default class TryLoopReporter {
+  onTestRunStart(specifications) {
+    emit({ type: 'run-start', files: specifications.length });
+  }
+
+  onTestCaseResult(testCase) {
+    const result = testCase.result();
+
+    // The performance harness attaches its timings to its own test
+    const perf = testCase.meta().tryloopPerf;
+    if (perf) emit({ type: 'perf', ...perf });
+
+    const errors = result.errors ?? [];
+    const suites = suiteTitles(testCase);
+
+    emit({
+      type: 'test',
+      suites,
+      test: {
+        // Same naming as the json reporter: suite titles + test title
+        name: [...suites, testCase.name].join(' '),
+        state:
+          testCase.options.mode === 'todo'
+            ? 'todo'
+            : (STATES[result.state] ?? 'unknown'),
+        file: testCase.module.moduleId,
+        error:
+          errors
+            .map((e) => (e.name ? `${e.name}: ${e.message}` : e.message))
+            .join('\n') || undefined,
+      },
+    });
+  }
+
+  onTestRunEnd(_testModules, _unhandledErrors, reason) {
+    emit({ type: 'run-end', reason });
+  }
+}
@@ -0,0 +1,54 @@
+import { readdir } from 'node:fs/promises';
+import { LOOPS_DIR } from '@/lib/loops/load';
+import { validateLoopFolder } from '@/lib/loops/validate';
+import { listTrackIds, validateTrack } from '@/lib/tracks/load';
+
+// Usage: npm run loops:validate [loopId...]
+// Checks every loop folder, then every track (all of them unless loop ids
+// are given).
+async function main() {
+  const only = process.argv.slice(2);
+  const entries = await readdir(LOOPS_DIR, { withFileTypes: true });
+  const loopIds = entries
+    .filter((e) => e.isDirectory())
+    .map((e) => e.name)
+    .filter((id) => !only.length || only.includes(id))
+    .sort();
+
+  let failed = 0;
+  for (const loopId of loopIds) {
+    const issues = await validateLoopFolder(loopId);
+    if (!issues.length) {
+      console.log(`✅ ${loopId}`);
+      continue;
+    }
+    failed++;
+    console.log(`❌ ${loopId}`);
+    for (const issue of issues) console.log(`   - ${issue}`);
+  }
+
+  console.log(`\n${loopIds.length - failed}/${loopIds.length} loops valid`);
+
+  const trackIds = only.length ? [] : await listTrackIds();
+  let failedTracks = 0;
+  if (trackIds.length) console.log();
+  for (const trackId of trackIds) {
+    const issues = await validateTrack(trackId);
+    if (!issues.length) {
+      console.log(`✅ tracks/${trackId}.json`);
+      continue;
+    }
+    failedTracks++;
+    console.log(`❌ tracks/${trackId}.json`);
+    for (const issue of issues) console.log(`   - ${issue}`);
+  }
+  if (trackIds.length) {
+    console.log(
+      `\n${trackIds.length - failedTracks}/${trackIds.length} tracks valid`,
+    );
+  }
+
+  process.exitCode = failed || failedTracks ? 1 : 0;
+}
+
+main();
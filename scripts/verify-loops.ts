@@ -0,0 +1,57 @@
+import { readdir } from 'node:fs/promises';
+import { getRunner } from '@/lib/runner';
+import { peekWorkerPool } from '@/lib/runner/warm';
+import { LOOPS_DIR } from '@/lib/loops/load';
+import { verifyLoop } from '@/lib/loops/verify';
+
+// Usage: npm run loops:verify [--strict] [loopId...]
+// Runs every loop's tests against its reference solution, its starter, its
+// glitches and automatic mutants, with the TRYLOOP_RUNNER backend. Fails on
+// a broken reference, a passing starter or a surviving glitch; --strict
+// also fails on surviving mutants.
+async function main() {
+  const args = process.argv.slice(2);
+  const strict = args.includes('--strict');
+  const only = args.filter((a) => !a.startsWith('--'));
+
+  const runner = getRunner();
+  const entries = await readdir(LOOPS_DIR, { withFileTypes: true });
+  const loopIds = entries
+    .filter((e) => e.isDirectory())
+    .map((e) => e.name)
+    .filter((id) => !only.length || only.includes(id))
+    .sort();
+
+  console.log(`Runner: ${runner.name}\n`);
+
+  let failed = 0;
+  for (const loopId of loopIds) {
+    const result = await verifyLoop(loopId, runner);
+    const survivors = result.mutants.filter(
+      (m) => m.kind !== 'glitch' && !m.killedBy.length,
+    );
+    const killed = result.mutants.length - survivors.length;
+    const bad = result.issues.length > 0 || (strict && survivors.length > 0);
+
+    if (result.skipped && !result.issues.length) {
+      console.log(`⏭️  ${loopId}: skipped, ${result.skipped}`);
+      continue;
+    }
+    if (bad) failed++;
+    console.log(
+      `${bad ? '❌' : '✅'} ${loopId}: ${killed}/${result.mutants.length} mutants caught`,
+    );
+    for (const issue of result.issues) console.log(`   - ${issue}`);
+    for (const m of survivors) {
+      console.log(`   ⚠️  survived: ${m.file} ${m.label} (${m.kind})`);
+    }
+  }
+
+  console.log(
+    `\n${loopIds.length - failed}/${loopIds.length} loops verified${strict ? ' (strict)' : ''}`,
+  );
+  peekWorkerPool()?.close();
+  process.exitCode = failed ? 1 : 0;
+}
+
+main();
@@ -0,0 +1,12 @@
+import path from 'node:path';
+import { defineConfig } from 'vitest/config';
+
+// Unit tests for lib/. The loops/ specs are learner-facing and run in the
+// sandbox runners, not here.
+export default defineConfig({
+  resolve: { alias: { '@': path.resolve(__dirname) } },
+  test: {
+    include: ['lib/**/*.test.ts'],
+    environment: 'node',
+  },
+});